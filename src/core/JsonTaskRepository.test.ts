@@ -0,0 +1,152 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TaskStore } from './TaskStore';
+import { CreateTaskInput, Task } from './types';
+
+function taskInput(title: string): CreateTaskInput {
+  return { title, category: 'CORE', priority: 'MEDIUM', branchTarget: { type: 'current' } };
+}
+
+describe('per-task file storage', () => {
+  let workspaceRoot: string;
+  let kanbanDir: string;
+  let store: TaskStore;
+
+  const taskFile = (id: string) => path.join(kanbanDir, 'tasks', `${id}.json`);
+  const readTaskFile = (id: string): Task => JSON.parse(fs.readFileSync(taskFile(id), 'utf-8')).task;
+  const readIndex = () => JSON.parse(fs.readFileSync(path.join(kanbanDir, 'index.json'), 'utf-8'));
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-files-'));
+    kanbanDir = path.join(workspaceRoot, '.cursor-kanban');
+    store = new TaskStore(workspaceRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('writes one file per task and an index in board order', async () => {
+    const first = await store.createTask(taskInput('First task'));
+    const second = await store.createTask(taskInput('Second task'));
+
+    expect(readTaskFile(first.id)).toMatchObject({ id: first.id, title: 'First task' });
+    expect(readIndex()).toEqual([
+      { id: first.id, title: 'First task', status: 'BACKLOG', category: 'CORE', priority: 'MEDIUM' },
+      { id: second.id, title: 'Second task', status: 'BACKLOG', category: 'CORE', priority: 'MEDIUM' }
+    ]);
+    expect(fs.existsSync(path.join(kanbanDir, 'tasks.json'))).toBe(false);
+  });
+
+  it('only rewrites the file of the task that changed', async () => {
+    const first = await store.createTask(taskInput('First task'));
+    const second = await store.createTask(taskInput('Second task'));
+    const session = await store.startRun(first.id);
+    const before = fs.readFileSync(taskFile(second.id), 'utf-8');
+    const indexBefore = fs.readFileSync(path.join(kanbanDir, 'index.json'), 'utf-8');
+    const secondMtime = fs.statSync(taskFile(second.id)).mtimeMs;
+
+    await store.addLog(first.id, session.sessionId, 'Progress');
+
+    expect(fs.readFileSync(taskFile(second.id), 'utf-8')).toBe(before);
+    expect(fs.statSync(taskFile(second.id)).mtimeMs).toBe(secondMtime);
+    expect(fs.readFileSync(path.join(kanbanDir, 'index.json'), 'utf-8')).toBe(indexBefore);
+    expect(fs.readFileSync(taskFile(first.id), 'utf-8')).toContain('Progress');
+  });
+
+  it('removes the file of a deleted task', async () => {
+    const task = await store.createTask(taskInput('Doomed task'));
+    await store.deleteTask(task.id);
+
+    expect(fs.existsSync(taskFile(task.id))).toBe(false);
+    expect(readIndex()).toEqual([]);
+  });
+
+  it('migrates a single tasks.json board on the first write', async () => {
+    const legacy = await store.createTask(taskInput('Legacy task'));
+    const legacyTask = readTaskFile(legacy.id);
+    fs.rmSync(path.join(kanbanDir, 'tasks'), { recursive: true });
+    fs.rmSync(path.join(kanbanDir, 'index.json'));
+    const { revision: _revision, ...withoutRevision } = legacyTask;
+    fs.writeFileSync(path.join(kanbanDir, 'tasks.json'), JSON.stringify([withoutRevision]));
+
+    // Read straight from the old file until something is written
+    const fresh = new TaskStore(workspaceRoot);
+    expect((await fresh.getTask(legacy.id))?.title).toBe('Legacy task');
+    expect((await fresh.listTasks()).items).toHaveLength(1);
+
+    const added = await fresh.createTask(taskInput('New task'));
+
+    expect(fs.existsSync(path.join(kanbanDir, 'tasks.json'))).toBe(false);
+    expect(fs.existsSync(path.join(kanbanDir, 'tasks.json.bak'))).toBe(true);
+    expect(readIndex().map((e: { id: string }) => e.id)).toEqual([legacy.id, added.id]);
+    expect(readTaskFile(legacy.id)).toMatchObject({ title: 'Legacy task', revision: 0 });
+  });
+
+  it('rebuilds a conflicted index and picks up task files added by a merge', async () => {
+    const first = await store.createTask(taskInput('First task'));
+    const second = await store.createTask(taskInput('Second task'));
+    const merged: Task = { ...readTaskFile(first.id), id: 'merged-task', title: 'Merged task' };
+    fs.writeFileSync(taskFile('merged-task'), JSON.stringify(merged));
+    fs.writeFileSync(path.join(kanbanDir, 'index.json'), '<<<<<<< HEAD\n[]\n=======\n[]\n>>>>>>> other\n');
+
+    const titles = (await store.listTasks()).items.map(t => t.title);
+    expect(titles).toEqual(expect.arrayContaining(['First task', 'Second task', 'Merged task']));
+
+    await store.updateTask(second.id, { title: 'Second task, edited' });
+    expect(readIndex().map((e: { id: string }) => e.id).sort()).toEqual([first.id, second.id, 'merged-task'].sort());
+  });
+
+  it('never reads outside the tasks directory', async () => {
+    fs.writeFileSync(path.join(kanbanDir, 'secret.json'), JSON.stringify({ id: 'secret' }));
+
+    expect(await store.getTask('../secret')).toBeNull();
+  });
+
+  it('migrates tasks from older schemas and backs up their files before rewriting them', async () => {
+    const task = await store.createTask(taskInput('Old task'));
+    const { revision: _revision, ...old } = readTaskFile(task.id);
+    const oldContent = JSON.stringify({ ...old, branchTarget: { type: 'existing', name: 'feature/old' } });
+    fs.writeFileSync(taskFile(task.id), oldContent);
+
+    expect(await store.getTask(task.id)).toMatchObject({ branchTarget: { type: 'new', name: 'feature/old' }, revision: 0 });
+
+    await store.updateTask(task.id, { description: 'Touched' });
+    expect(JSON.parse(fs.readFileSync(taskFile(task.id), 'utf-8'))).toMatchObject({ schemaVersion: 2, task: { description: 'Touched' } });
+    expect(fs.readFileSync(path.join(kanbanDir, 'backups', 'schema-0', `${task.id}.json`), 'utf-8')).toBe(oldContent);
+  });
+
+  it('refuses to write over a task file that does not parse', async () => {
+    const damaged = await store.createTask(taskInput('Damaged task'));
+    const other = await store.createTask(taskInput('Other task'));
+    fs.writeFileSync(taskFile(damaged.id), '{ "schemaVersion": 2, <<<<<<< HEAD');
+
+    await expect(store.listTasks()).rejects.toMatchObject({ code: 'STORAGE_CORRUPT' });
+    await expect(store.updateTask(damaged.id, { title: 'Damaged task, edited' })).rejects.toThrow(`.cursor-kanban/tasks/${damaged.id}.json`);
+    await expect(store.updateTask(other.id, { blockedBy: [] })).rejects.toMatchObject({ code: 'STORAGE_CORRUPT' });
+    expect(fs.readFileSync(taskFile(damaged.id), 'utf-8')).toBe('{ "schemaVersion": 2, <<<<<<< HEAD');
+    expect(readTaskFile(other.id).title).toBe('Other task');
+
+    // Changes to other tasks only touch their own files
+    await store.updateTask(other.id, { title: 'Other task, edited' });
+    expect(readTaskFile(other.id).title).toBe('Other task, edited');
+    expect(fs.readFileSync(taskFile(damaged.id), 'utf-8')).toBe('{ "schemaVersion": 2, <<<<<<< HEAD');
+  });
+
+  it('never replaces an unreadable tasks.json with an empty board', async () => {
+    fs.writeFileSync(path.join(kanbanDir, 'tasks.json'), '[{"id": "half-written"');
+
+    await expect(store.createTask(taskInput('New task'))).rejects.toMatchObject({ code: 'STORAGE_CORRUPT' });
+    expect(fs.readFileSync(path.join(kanbanDir, 'tasks.json'), 'utf-8')).toBe('[{"id": "half-written"');
+    expect(fs.existsSync(path.join(kanbanDir, 'tasks'))).toBe(false);
+  });
+
+  it('refuses task files written by a newer version', async () => {
+    const task = await store.createTask(taskInput('Future task'));
+    fs.writeFileSync(taskFile(task.id), JSON.stringify({ schemaVersion: 99, task: readTaskFile(task.id) }));
+
+    await expect(store.getTask(task.id)).rejects.toThrow('written by a newer version');
+  });
+});
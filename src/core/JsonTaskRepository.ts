@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Task } from './types';
+import { matchesQuery, StorageCorruptionError, TaskIndexEntry, TaskQuery, TaskRepository, toIndexEntry } from './TaskRepository';
+import { migrateTasks, TASK_SCHEMA_VERSION } from './migrations';
+
+const TASKS_DIR = 'tasks';
+const INDEX_FILE = 'index.json';
+const LEGACY_TASKS_FILE = 'tasks.json';
+const LEGACY_BACKUP_FILE = 'tasks.json.bak';
+const BACKUP_DIR = 'backups';
+
+// What each task file holds; files from before versioning are a bare task
+interface TaskFile {
+  schemaVersion: number;
+  task: Task;
+}
+
+// One JSON file per task under .cursor-kanban/tasks, plus an index in board order. A log line only
+// rewrites its own task's file, and branches touching different tasks merge cleanly. The task
+// files are the source of truth; a missing or conflicted index is rebuilt from them. Task files from
+// older schemas are migrated when read and backed up before they're first rewritten.
+export class JsonTaskRepository implements TaskRepository {
+  private readonly tasksDir: string;
+  private readonly indexPath: string;
+  private readonly legacyPath: string;
+
+  constructor(private readonly kanbanDir: string) {
+    this.tasksDir = path.join(kanbanDir, TASKS_DIR);
+    this.indexPath = path.join(kanbanDir, INDEX_FILE);
+    this.legacyPath = path.join(kanbanDir, LEGACY_TASKS_FILE);
+  }
+
+  async readAll(): Promise<Task[]> {
+    return this.query({});
+  }
+
+  async read(id: string): Promise<Task | null> {
+    if (this.hasLegacyFile()) {
+      return this.readLegacyFile().find(t => t.id === id) ?? null;
+    }
+    return this.readTaskFile(id);
+  }
+
+  async query(filters: TaskQuery): Promise<Task[]> {
+    if (this.hasLegacyFile()) {
+      return this.readLegacyFile().filter(t => matchesQuery(t, filters));
+    }
+    return this.loadIndex()
+      .filter(entry => matchesQuery(entry, filters))
+      .map(entry => this.readTaskFile(entry.id))
+      .filter((task): task is Task => task !== null);
+  }
+
+  async readIndex(): Promise<TaskIndexEntry[]> {
+    if (this.hasLegacyFile()) {
+      return this.readLegacyFile().map(toIndexEntry);
+    }
+    return this.loadIndex();
+  }
+
+  async write(tasks: Task[]): Promise<void> {
+    fs.mkdirSync(this.tasksDir, { recursive: true });
+
+    const migrating = this.hasLegacyFile();
+    // Throws on an unreadable task file, so nothing is written over it
+    const previousIds = migrating ? [] : (await this.readAll()).map(t => t.id);
+
+    for (const task of tasks) {
+      this.writeTaskFile(task);
+    }
+    for (const id of previousIds.filter(id => !tasks.some(t => t.id === id))) {
+      fs.rmSync(this.taskPath(id), { force: true });
+    }
+    this.writeIfChanged(this.indexPath, JSON.stringify(tasks.map(toIndexEntry), null, 2));
+
+    // A board still in the old single tasks.json is migrated by its first write; that file
+    // stays authoritative until everything above is on disk
+    if (migrating) {
+      fs.renameSync(this.legacyPath, path.join(this.kanbanDir, LEGACY_BACKUP_FILE));
+    }
+  }
+
+  async save(task: Task): Promise<void> {
+    if (this.hasLegacyFile()) {
+      const tasks = this.readLegacyFile();
+      const exists = tasks.some(t => t.id === task.id);
+      return this.write(exists ? tasks.map(t => (t.id === task.id ? task : t)) : [...tasks, task]);
+    }
+
+    fs.mkdirSync(this.tasksDir, { recursive: true });
+    const index = this.loadIndex();
+    this.writeTaskFile(task);
+
+    const position = index.findIndex(entry => entry.id === task.id);
+    if (position === -1) {
+      index.push(toIndexEntry(task));
+    } else {
+      index[position] = toIndexEntry(task);
+    }
+    this.writeIfChanged(this.indexPath, JSON.stringify(index, null, 2));
+  }
+
+  async delete(id: string): Promise<void> {
+    if (this.hasLegacyFile()) {
+      return this.write(this.readLegacyFile().filter(t => t.id !== id));
+    }
+
+    const index = this.loadIndex();
+    fs.rmSync(this.taskPath(id), { force: true });
+    this.writeIfChanged(this.indexPath, JSON.stringify(index.filter(entry => entry.id !== id), null, 2));
+  }
+
+  // Index entries in board order, rebuilt from the task files when they disagree
+  private loadIndex(): TaskIndexEntry[] {
+    const ids = this.listTaskIds();
+    let index: TaskIndexEntry[] = [];
+    try {
+      const parsed = JSON.parse(fs.readFileSync(this.indexPath, 'utf-8'));
+      index = Array.isArray(parsed) ? parsed : [];
+    } catch {
+      // Missing, or left with merge conflict markers
+    }
+
+    if (index.length === ids.length && index.every(entry => ids.includes(entry.id))) {
+      return index;
+    }
+
+    // Keep the known order and append tasks that arrived without an index entry (e.g. from a merge)
+    const order = new Map(index.map((entry, i) => [entry.id, i]));
+    return ids
+      .map(id => this.readTaskFile(id))
+      .filter((task): task is Task => task !== null)
+      .sort((a, b) =>
+        (order.get(a.id) ?? Infinity) - (order.get(b.id) ?? Infinity)
+        || new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+      .map(toIndexEntry);
+  }
+
+  private writeTaskFile(task: Task): void {
+    const file: TaskFile = { schemaVersion: TASK_SCHEMA_VERSION, task };
+    this.writeIfChanged(this.taskPath(task.id), JSON.stringify(file, null, 2), previous => this.backupOutdated(task.id, previous));
+  }
+
+  private readTaskFile(id: string): Task | null {
+    // IDs come from tool callers, so never let one point outside the tasks directory
+    if (!/^[\w-]+$/.test(id)) {
+      return null;
+    }
+    let content: string;
+    try {
+      content = fs.readFileSync(this.taskPath(id), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+    const { schemaVersion, task } = this.parseTaskFile(id, content);
+    return migrateTasks([task], schemaVersion, this.displayPath(this.taskPath(id)))[0];
+  }
+
+  private parseTaskFile(id: string, content: string): TaskFile {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch (error) {
+      throw new StorageCorruptionError(this.displayPath(this.taskPath(id)), error instanceof Error ? error.message : String(error));
+    }
+    // Versioned files wrap the task; files from before versioning are the bare task
+    if (isObject(parsed) && typeof parsed.schemaVersion === 'number' && isObject(parsed.task) && parsed.task.id === id) {
+      return { schemaVersion: parsed.schemaVersion, task: parsed.task as unknown as Task };
+    }
+    if (isObject(parsed) && parsed.id === id) {
+      return { schemaVersion: 0, task: parsed as unknown as Task };
+    }
+    throw new StorageCorruptionError(this.displayPath(this.taskPath(id)), `not a task file for ${id}`);
+  }
+
+  // Keep a copy of a task file from an older schema before it's rewritten in the current one
+  private backupOutdated(id: string, previous: string): void {
+    const { schemaVersion } = this.parseTaskFile(id, previous);
+    if (schemaVersion >= TASK_SCHEMA_VERSION) {
+      return;
+    }
+    const backupPath = path.join(this.kanbanDir, BACKUP_DIR, `schema-${schemaVersion}`, `${id}.json`);
+    if (!fs.existsSync(backupPath)) {
+      fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+      fs.writeFileSync(backupPath, previous, 'utf-8');
+    }
+  }
+
+  private hasLegacyFile(): boolean {
+    return fs.existsSync(this.legacyPath);
+  }
+
+  // The old file predates versioning; it's kept as tasks.json.bak once migrated
+  private readLegacyFile(): Task[] {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(fs.readFileSync(this.legacyPath, 'utf-8'));
+    } catch (error) {
+      throw new StorageCorruptionError(this.displayPath(this.legacyPath), error instanceof Error ? error.message : String(error));
+    }
+    if (!Array.isArray(parsed)) {
+      throw new StorageCorruptionError(this.displayPath(this.legacyPath), 'expected a list of tasks');
+    }
+    return migrateTasks(parsed, 0, this.displayPath(this.legacyPath));
+  }
+
+  private listTaskIds(): string[] {
+    if (!fs.existsSync(this.tasksDir)) {
+      return [];
+    }
+    return fs.readdirSync(this.tasksDir)
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length));
+  }
+
+  private taskPath(id: string): string {
+    return path.join(this.tasksDir, `${id}.json`);
+  }
+
+  // Path as the user sees it in their workspace, for error messages
+  private displayPath(filePath: string): string {
+    return path.relative(path.dirname(this.kanbanDir), filePath);
+  }
+
+  private writeIfChanged(filePath: string, content: string, beforeOverwrite?: (previous: string) => void): void {
+    let previous: string | undefined;
+    try {
+      previous = fs.readFileSync(filePath, 'utf-8');
+    } catch {
+      // Not written yet
+    }
+    if (previous === content) {
+      return;
+    }
+    if (previous !== undefined) {
+      beforeOverwrite?.(previous);
+    }
+    const tmpPath = filePath + '.tmp';
+    fs.writeFileSync(tmpPath, content, 'utf-8');
+    fs.renameSync(tmpPath, filePath);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { TaskStore } from './TaskStore';
+import { SqliteTaskRepository } from './SqliteTaskRepository';
+import { CreateTaskInput } from './types';
+
+function taskInput(title: string, priority = 'MEDIUM'): CreateTaskInput {
+  return { title, category: 'CORE', priority, branchTarget: { type: 'current' } };
+}
+
+describe('SQLite storage', () => {
+  let workspaceRoot: string;
+  let kanbanDir: string;
+  let store: TaskStore;
+
+  const databasePath = () => path.join(kanbanDir, 'tasks.sqlite');
+  const useStorage = (storage: string) =>
+    fs.writeFileSync(path.join(kanbanDir, 'config.json'), JSON.stringify({ storage }));
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-sqlite-'));
+    kanbanDir = path.join(workspaceRoot, '.cursor-kanban');
+    store = new TaskStore(workspaceRoot);
+    useStorage('sqlite');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('keeps tasks in the database when the config selects sqlite', async () => {
+    const task = await store.createTask(taskInput('Stored in SQLite'));
+    await store.updateTask(task.id, { description: 'Changed' });
+
+    expect(fs.existsSync(databasePath())).toBe(true);
+    expect(fs.existsSync(path.join(kanbanDir, 'tasks'))).toBe(false);
+    expect(await store.getTask(task.id)).toMatchObject({ description: 'Changed', revision: 2 });
+
+    await store.deleteTask(task.id);
+    expect(await store.getTask(task.id)).toBeNull();
+  });
+
+  it('queries by status and priority in board order', async () => {
+    const high = await store.createTask(taskInput('Urgent task', 'HIGH'));
+    const low = await store.createTask(taskInput('Someday task', 'LOW'));
+    const started = await store.createTask(taskInput('Started task', 'HIGH'));
+    await store.startRun(started.id);
+
+    const repository = new SqliteTaskRepository(kanbanDir);
+    expect((await repository.query({ status: ['BACKLOG'] })).map(t => t.id)).toEqual([high.id, low.id]);
+    expect((await repository.query({ priority: ['HIGH'] })).map(t => t.id)).toEqual([high.id, started.id]);
+    expect((await repository.query({ status: ['BACKLOG'], priority: ['HIGH', 'LOW'] })).map(t => t.id))
+      .toEqual([high.id, low.id]);
+
+    const backlog = await store.listTasks({ status: ['BACKLOG'] });
+    expect(backlog.items.map(t => t.id)).toEqual([high.id, low.id]);
+  });
+
+  it('saves a single task in place and appends new ones', async () => {
+    const first = await store.createTask(taskInput('First task'));
+    const second = await store.createTask(taskInput('Second task'));
+    const session = await store.startRun(first.id);
+    await store.addLog(first.id, session.sessionId, 'Progress');
+    const third = await store.createTask(taskInput('Third task'));
+
+    const repository = new SqliteTaskRepository(kanbanDir);
+    expect((await repository.readAll()).map(t => t.id)).toEqual([first.id, second.id, third.id]);
+    expect((await repository.read(first.id))?.runSessions[0].logs.map(l => l.message)).toContain('Progress');
+
+    await repository.delete(second.id);
+    await repository.save({ ...second, title: 'Second task, back' });
+    expect((await repository.readAll()).map(t => t.title)).toEqual(['First task', 'Third task', 'Second task, back']);
+  });
+
+  it('imports the JSON board the first time it is switched over', async () => {
+    useStorage('json');
+    const task = await store.createTask(taskInput('Written as JSON'));
+    useStorage('sqlite');
+
+    expect(await store.getTask(task.id)).toMatchObject({ title: 'Written as JSON' });
+    expect(fs.existsSync(databasePath())).toBe(false);
+
+    await store.createTask(taskInput('Written to SQLite'));
+    const titles = (await new SqliteTaskRepository(kanbanDir).readAll()).map(t => t.title);
+    expect(titles).toEqual(['Written as JSON', 'Written to SQLite']);
+  });
+
+  it('sees writes made by another store', async () => {
+    const other = new TaskStore(workspaceRoot);
+    const task = await store.createTask(taskInput('Shared task'));
+    expect(await other.getTask(task.id)).not.toBeNull();
+
+    await other.updateTask(task.id, { title: 'Renamed elsewhere' });
+    expect(await store.getTask(task.id)).toMatchObject({ title: 'Renamed elsewhere' });
+  });
+
+  it('refuses to write over a database that does not open', async () => {
+    await store.createTask(taskInput('Stored in SQLite'));
+    fs.writeFileSync(databasePath(), 'not a database');
+
+    await expect(store.createTask(taskInput('Another task'))).rejects.toMatchObject({ code: 'STORAGE_CORRUPT' });
+    expect(fs.readFileSync(databasePath(), 'utf-8')).toBe('not a database');
+  });
+});
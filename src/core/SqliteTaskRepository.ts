@@ -0,0 +1,236 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { Task } from './types';
+import { StorageCorruptionError, TaskIndexEntry, TaskQuery, TaskRepository } from './TaskRepository';
+import { JsonTaskRepository } from './JsonTaskRepository';
+import { migrateTasks, TASK_SCHEMA_VERSION } from './migrations';
+
+const DATABASE_FILE = 'tasks.sqlite';
+const BACKUP_DIR = 'backups';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS tasks (
+    id TEXT PRIMARY KEY,
+    position INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    status TEXT NOT NULL,
+    category TEXT NOT NULL,
+    priority TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS tasks_status ON tasks (status, position);
+  CREATE INDEX IF NOT EXISTS tasks_priority ON tasks (priority, position);
+  CREATE INDEX IF NOT EXISTS tasks_category ON tasks (category, position);
+`;
+
+// The WASM build runs in both the extension host and the MCP server's Node, unlike native modules
+let sqlJs: Promise<SqlJsStatic> | undefined;
+
+// Tasks in a single SQLite file (.cursor-kanban/tasks.sqlite). Status, category and priority are
+// indexed columns, so listing a column only parses that column's tasks. The database is loaded
+// into memory and reloaded whenever another process has replaced the file. The task schema version
+// is the database's user_version; older databases are migrated on load and backed up on the next write.
+export class SqliteTaskRepository implements TaskRepository {
+  private readonly databasePath: string;
+  private db?: Database;
+  private loadedSignature?: string;
+  private outdatedSchema?: number; // Schema of the file on disk, while it still needs migrating
+
+  constructor(private readonly kanbanDir: string) {
+    this.databasePath = path.join(kanbanDir, DATABASE_FILE);
+  }
+
+  async readAll(): Promise<Task[]> {
+    return this.query({});
+  }
+
+  async read(id: string): Promise<Task | null> {
+    const [row] = this.select(await this.open(), 'SELECT data FROM tasks WHERE id = ?', [id]);
+    return row ? this.parseTask(row[0]) : null;
+  }
+
+  async query(filters: TaskQuery): Promise<Task[]> {
+    const conditions: string[] = [];
+    const params: SqlValue[] = [];
+    for (const column of ['status', 'category', 'priority'] as const) {
+      const values = filters[column];
+      if (values?.length) {
+        conditions.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+        params.push(...values);
+      }
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    return this.select(await this.open(), `SELECT data FROM tasks ${where} ORDER BY position`, params)
+      .map(row => this.parseTask(row[0]));
+  }
+
+  async readIndex(): Promise<TaskIndexEntry[]> {
+    return this.select(await this.open(), 'SELECT id, title, status, category, priority FROM tasks ORDER BY position')
+      .map(([id, title, status, category, priority]) => ({
+        id: id as string,
+        title: title as string,
+        status: status as string,
+        category: category as string,
+        priority: priority as string
+      }));
+  }
+
+  async write(tasks: Task[]): Promise<void> {
+    const db = await this.open();
+    const stored = new Map(
+      this.select(db, 'SELECT id, position, data FROM tasks').map(([id, position, data]) => [id as string, { position, data }])
+    );
+
+    db.run('BEGIN');
+    try {
+      tasks.forEach((task, position) => {
+        const data = JSON.stringify(task);
+        const previous = stored.get(task.id);
+        if (previous?.data === data && previous.position === position) {
+          return;
+        }
+        db.run(
+          `INSERT OR REPLACE INTO tasks (id, position, title, status, category, priority, data)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          [task.id, position, task.title, task.status, task.category, task.priority, data]
+        );
+      });
+      for (const id of stored.keys()) {
+        if (!tasks.some(t => t.id === id)) {
+          db.run('DELETE FROM tasks WHERE id = ?', [id]);
+        }
+      }
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+
+    this.persist(db);
+  }
+
+  async save(task: Task): Promise<void> {
+    const db = await this.open();
+    const data = JSON.stringify(task);
+    const [stored] = this.select(db, 'SELECT position, data FROM tasks WHERE id = ?', [task.id]);
+    if (stored?.[1] === data) {
+      return;
+    }
+
+    const position = stored?.[0] ?? this.select(db, 'SELECT COALESCE(MAX(position) + 1, 0) FROM tasks')[0][0];
+    db.run(
+      `INSERT OR REPLACE INTO tasks (id, position, title, status, category, priority, data)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [task.id, position, task.title, task.status, task.category, task.priority, data]
+    );
+    this.persist(db);
+  }
+
+  async delete(id: string): Promise<void> {
+    const db = await this.open();
+    db.run('DELETE FROM tasks WHERE id = ?', [id]);
+    if (db.getRowsModified() > 0) {
+      this.persist(db);
+    }
+  }
+
+  // Replaces the file on disk with the in-memory database
+  private persist(db: Database): void {
+    if (this.outdatedSchema !== undefined) {
+      this.backupOutdated(this.outdatedSchema);
+      this.outdatedSchema = undefined;
+    }
+    const tmpPath = this.databasePath + '.tmp';
+    fs.writeFileSync(tmpPath, db.export());
+    fs.renameSync(tmpPath, this.databasePath);
+    this.loadedSignature = this.fileSignature();
+  }
+
+  // The in-memory copy of the database, reloaded when the file changed on disk
+  private async open(): Promise<Database> {
+    const signature = this.fileSignature();
+    if (this.db && signature === this.loadedSignature) {
+      return this.db;
+    }
+
+    const SQL = await (sqlJs ??= initSqlJs());
+    this.db?.close();
+    this.db = undefined;
+    this.outdatedSchema = undefined;
+    if (signature) {
+      this.db = this.load(SQL);
+    } else {
+      // A board switching over from JSON files starts with their tasks; the first write saves them
+      this.db = new SQL.Database();
+      this.db.run(SCHEMA);
+      const imported = await new JsonTaskRepository(this.kanbanDir).readAll();
+      imported.forEach((task, position) => this.db!.run(
+        `INSERT INTO tasks (id, position, title, status, category, priority, data) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [task.id, position, task.title, task.status, task.category, task.priority, JSON.stringify(task)]
+      ));
+      this.db.run(`PRAGMA user_version = ${TASK_SCHEMA_VERSION}`);
+    }
+    this.loadedSignature = signature;
+    return this.db;
+  }
+
+  // Opens the file on disk, migrating its tasks in memory when they're from an older schema
+  private load(SQL: SqlJsStatic): Database {
+    let db: Database;
+    let schemaVersion: number;
+    try {
+      db = new SQL.Database(fs.readFileSync(this.databasePath));
+      schemaVersion = this.select(db, 'PRAGMA user_version')[0][0] as number;
+    } catch (error) {
+      throw new StorageCorruptionError(this.displayPath(), error instanceof Error ? error.message : String(error));
+    }
+
+    const rows = this.select(db, 'SELECT id, data FROM tasks');
+    const migrated = migrateTasks(rows.map(([, data]) => this.parseTask(data)), schemaVersion, this.displayPath());
+    if (schemaVersion < TASK_SCHEMA_VERSION) {
+      migrated.forEach(task => db.run('UPDATE tasks SET data = ? WHERE id = ?', [JSON.stringify(task), task.id]));
+      db.run(`PRAGMA user_version = ${TASK_SCHEMA_VERSION}`);
+      this.outdatedSchema = schemaVersion;
+    }
+    return db;
+  }
+
+  private parseTask(data: SqlValue): Task {
+    try {
+      return JSON.parse(data as string);
+    } catch (error) {
+      throw new StorageCorruptionError(this.displayPath(), `unreadable task row (${error instanceof Error ? error.message : String(error)})`);
+    }
+  }
+
+  // Keep a copy of a database from an older schema before it's rewritten in the current one
+  private backupOutdated(schemaVersion: number): void {
+    const backupPath = path.join(this.kanbanDir, BACKUP_DIR, `schema-${schemaVersion}`, DATABASE_FILE);
+    if (fs.existsSync(this.databasePath) && !fs.existsSync(backupPath)) {
+      fs.mkdirSync(path.dirname(backupPath), { recursive: true });
+      fs.copyFileSync(this.databasePath, backupPath);
+    }
+  }
+
+  // Path as the user sees it in their workspace, for error messages
+  private displayPath(): string {
+    return path.relative(path.dirname(this.kanbanDir), this.databasePath);
+  }
+
+  // Changes whenever the file is replaced or rewritten
+  private fileSignature(): string | undefined {
+    try {
+      const stat = fs.statSync(this.databasePath);
+      return `${stat.ino}:${stat.size}:${stat.mtimeMs}`;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private select(db: Database, sql: string, params: SqlValue[] = []): SqlValue[][] {
+    const [result] = db.exec(sql, params);
+    return result?.values ?? [];
+  }
+}
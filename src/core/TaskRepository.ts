@@ -0,0 +1,57 @@
+import { Category, Priority, Status, Task } from './types';
+
+// What the board needs to know about a task without loading all of it
+export interface TaskIndexEntry {
+  id: string;
+  title: string;
+  status: Status;
+  category: Category;
+  priority: Priority;
+}
+
+export interface TaskQuery {
+  status?: Status[];
+  category?: Category[];
+  priority?: Priority[];
+}
+
+// Where a board's tasks live. Everything is returned in board order. TaskStore holds the board
+// lock around writes and the reads that lead up to them.
+export interface TaskRepository {
+  readAll(): Promise<Task[]>;
+  read(id: string): Promise<Task | null>;
+  // Only loads the tasks matching every given filter
+  query(filters: TaskQuery): Promise<Task[]>;
+  readIndex(): Promise<TaskIndexEntry[]>;
+  // Replaces the stored board with these tasks
+  write(tasks: Task[]): Promise<void>;
+  // Stores one task in place, or at the end of the board when it's new
+  save(task: Task): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+// A stored file that doesn't parse. Whatever needs it fails until it's fixed, so it's never overwritten.
+export class StorageCorruptionError extends Error {
+  readonly code = 'STORAGE_CORRUPT';
+
+  constructor(readonly file: string, reason: string) {
+    super(`Cannot read ${file}: ${reason}. Fix or restore the file; it won't be written until then.`);
+    this.name = 'StorageCorruptionError';
+  }
+}
+
+export function toIndexEntry(task: Task): TaskIndexEntry {
+  return {
+    id: task.id,
+    title: task.title,
+    status: task.status,
+    category: task.category,
+    priority: task.priority
+  };
+}
+
+export function matchesQuery(entry: TaskIndexEntry, filters: TaskQuery): boolean {
+  return (!filters.status?.length || filters.status.includes(entry.status))
+    && (!filters.category?.length || filters.category.includes(entry.category))
+    && (!filters.priority?.length || filters.priority.includes(entry.priority));
+}
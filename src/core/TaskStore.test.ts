@@ -0,0 +1,170 @@
+import { execFile, spawn, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { promisify } from 'util';
+import { buildSync } from 'esbuild';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TaskStore } from './TaskStore';
+import { CreateTaskInput } from './types';
+
+const execFileAsync = promisify(execFile);
+
+const taskInput: CreateTaskInput = {
+  title: 'Write the docs',
+  category: 'CORE',
+  priority: 'MEDIUM',
+  branchTarget: { type: 'current' }
+};
+
+// Each worker process creates tasks and logs to a shared session as fast as it can
+const WORKER_SOURCE = `
+import { TaskStore } from './TaskStore';
+
+const [workspaceRoot, taskId, sessionId, worker, count] = process.argv.slice(2);
+
+(async () => {
+  const store = new TaskStore(workspaceRoot);
+  for (let i = 0; i < Number(count); i++) {
+    await store.createTask({
+      title: \`Worker \${worker} task \${i}\`,
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'current' }
+    });
+    await store.addLog(taskId, sessionId, \`Worker \${worker} log \${i}\`);
+  }
+})().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
+`;
+
+describe('TaskStore locking', () => {
+  let workspaceRoot: string;
+  let store: TaskStore;
+  let lockPath: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-lock-'));
+    store = new TaskStore(workspaceRoot);
+    lockPath = path.join(workspaceRoot, '.cursor-kanban', '.lock');
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('breaks a lock left behind by a dead process', async () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid!;
+    fs.writeFileSync(lockPath, String(deadPid));
+
+    await expect(store.createTask(taskInput)).resolves.toBeTruthy();
+    expect(fs.existsSync(lockPath)).toBe(false);
+  });
+
+  it('breaks an old lock that never got a PID', async () => {
+    fs.writeFileSync(lockPath, '');
+    const old = new Date(Date.now() - 60_000);
+    fs.utimesSync(lockPath, old, old);
+
+    await expect(store.createTask(taskInput)).resolves.toBeTruthy();
+  });
+
+  it('keeps a lock that a live process took after the staleness check', () => {
+    const deadPid = spawnSync(process.execPath, ['-e', '']).pid!;
+    fs.writeFileSync(lockPath, String(deadPid));
+
+    // Between the check and the rename, another process breaks the stale lock and takes a new one
+    const storeInternals = store as unknown as { isLockStale(): unknown; breakStaleLock(): boolean };
+    const isLockStale = storeInternals.isLockStale.bind(store);
+    vi.spyOn(storeInternals, 'isLockStale').mockImplementation(() => {
+      const stale = isLockStale();
+      fs.unlinkSync(lockPath);
+      fs.writeFileSync(lockPath, String(process.pid));
+      return stale;
+    });
+
+    expect(storeInternals.breakStaleLock()).toBe(true);
+    expect(fs.readFileSync(lockPath, 'utf-8')).toBe(String(process.pid));
+    expect(fs.readdirSync(path.dirname(lockPath)).filter(f => f.startsWith('.lock.'))).toEqual([]);
+  });
+
+  it('waits for a live holder and proceeds once it dies', async () => {
+    const holder = spawn(process.execPath, ['-e', 'setTimeout(() => {}, 30000)']);
+    try {
+      fs.writeFileSync(lockPath, String(holder.pid));
+
+      let created = false;
+      const pending = store.createTask(taskInput).then(() => { created = true; });
+      await new Promise(resolve => setTimeout(resolve, 300));
+      expect(created).toBe(false);
+
+      holder.kill();
+      await new Promise(resolve => holder.once('exit', resolve));
+      await pending;
+      expect(created).toBe(true);
+    } finally {
+      holder.kill();
+    }
+  });
+
+  it('loses no updates when several processes write at once', async () => {
+    const workers = 4;
+    const perWorker = 10;
+    const task = await store.createTask(taskInput);
+    const session = await store.startRun(task.id);
+
+    const workerPath = path.join(workspaceRoot, 'worker.cjs');
+    buildSync({
+      stdin: { contents: WORKER_SOURCE, resolveDir: __dirname, loader: 'ts' },
+      bundle: true,
+      platform: 'node',
+      format: 'cjs',
+      outfile: workerPath,
+      logLevel: 'silent'
+    });
+
+    await Promise.all(Array.from({ length: workers }, (_, worker) =>
+      execFileAsync(process.execPath, [workerPath, workspaceRoot, task.id, session.sessionId, String(worker), String(perWorker)])
+    ));
+
+    const tasks = await store.listTasks({ limit: 1000 });
+    expect(tasks.items).toHaveLength(1 + workers * perWorker);
+
+    const logs = (await store.getTask(task.id))!.runSessions[0].logs;
+    expect(logs.filter(log => log.message.startsWith('Worker '))).toHaveLength(workers * perWorker);
+    expect(fs.existsSync(lockPath)).toBe(false);
+  }, 60_000);
+});
+
+describe('TaskStore.watch', () => {
+  let workspaceRoot: string;
+  let store: TaskStore;
+  let stop: (() => void) | undefined;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-watch-'));
+    store = new TaskStore(workspaceRoot);
+  });
+
+  afterEach(() => {
+    stop?.();
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('sees changes to task files in directories created after it started', async () => {
+    const listener = vi.fn();
+    stop = store.watch(listener);
+
+    const task = await store.createTask(taskInput);
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+
+    // Let the events from creating the task settle before the change that counts
+    await new Promise(resolve => setTimeout(resolve, 100));
+    listener.mockClear();
+    const taskFile = path.join(workspaceRoot, '.cursor-kanban', 'tasks', `${task.id}.json`);
+    fs.writeFileSync(taskFile, fs.readFileSync(taskFile, 'utf-8').replace('Write the docs', 'Edited by hand'));
+    await vi.waitFor(() => expect(listener).toHaveBeenCalled());
+  });
+});
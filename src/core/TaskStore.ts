@@ -12,22 +12,120 @@ import {
   Status,
   RunSession,
   HistoryEntry,
-  LogEntry
+  LogEntry,
+  TaskRef,
+  ChecklistItem,
+  BoardConfig,
+  BoardOption,
+  Actor,
+  WorktreeInfo,
+  SessionChanges,
+  AbandonedRun,
+  DirtyTreeChoice,
+  StashInfo,
+  StorageBackend
 } from './types';
+import { loadBoardConfig } from './boardConfig';
+import { allowedTransitions, isTransitionAllowed, TransitionError } from './workflow';
+import { assertValidBranchName, GitHelper } from './gitHelper';
+import { renderBranchName, uniqueBranchName } from './branchNaming';
+import { TaskIndexEntry, TaskRepository } from './TaskRepository';
+import { JsonTaskRepository } from './JsonTaskRepository';
+import { SqliteTaskRepository } from './SqliteTaskRepository';
 
 const KANBAN_DIR = '.cursor-kanban';
-const TASKS_FILE = 'tasks.json';
 const LOCK_FILE = '.lock';
+const DEFAULT_RESERVATION_MINUTES = 30;
+const LOCK_TIMEOUT_MS = 5000;
+const ARCHIVE_DIR = 'archive';
+// Where board files are written, relative to .cursor-kanban
+const WATCHED_DIRS = ['', 'tasks', ARCHIVE_DIR, path.join(ARCHIVE_DIR, 'tasks')];
+const DAY_MS = 24 * 60 * 60_000;
+
+// When the task last moved into FINISHED, falling back to its last update
+function finishedAt(task: Task): string {
+  const entry = [...task.history].reverse().find(h => h.to === 'FINISHED' && h.from !== 'FINISHED' && !h.refused);
+  return entry?.at ?? task.updatedAt;
+}
+
+// Compares tasks ignoring the revision, which writes bump
+function withoutRevision(task: Task): string {
+  return JSON.stringify({ ...task, revision: undefined });
+}
+
+// The task changed since the caller last read it
+export class RevisionConflictError extends Error {
+  readonly code = 'REVISION_CONFLICT';
+
+  constructor(
+    readonly taskId: string,
+    readonly expectedRevision: number,
+    readonly actualRevision: number
+  ) {
+    super(`Task was modified by someone else (expected revision ${expectedRevision}, current revision ${actualRevision})`);
+    this.name = 'RevisionConflictError';
+  }
+}
+
+export class TaskNotFoundError extends Error {
+  readonly code = 'TASK_NOT_FOUND';
+
+  constructor(readonly taskId: string, archived = false) {
+    super(archived ? 'Archived task not found' : 'Task not found');
+    this.name = 'TaskNotFoundError';
+  }
+}
+
+export class SessionNotFoundError extends Error {
+  readonly code = 'SESSION_NOT_FOUND';
+
+  constructor(readonly taskId: string, readonly sessionId: string) {
+    super('Session not found');
+    this.name = 'SessionNotFoundError';
+  }
+}
+
+// The task can't start while tasks it depends on are unfinished
+export class TaskBlockedError extends Error {
+  readonly code = 'TASK_BLOCKED';
+  readonly blockedBy: string[]; // IDs of the unfinished blockers
+
+  constructor(readonly taskId: string, blockers: Pick<Task, 'id' | 'title'>[]) {
+    super(`Task is blocked by: ${blockers.map(t => t.title).join(', ')}`);
+    this.name = 'TaskBlockedError';
+    this.blockedBy = blockers.map(t => t.id);
+  }
+}
+
+export class RunAlreadyActiveError extends Error {
+  readonly code = 'RUN_ALREADY_ACTIVE';
+
+  constructor(readonly taskId: string) {
+    super('Task already has a running session');
+    this.name = 'RunAlreadyActiveError';
+  }
+}
+
+// A category, priority or status the project's board config doesn't define
+export class UnknownOptionError extends Error {
+  readonly code = 'UNKNOWN_OPTION';
+
+  constructor(readonly kind: string, readonly value: string, readonly expected: string[]) {
+    super(`Unknown ${kind}: ${value} (expected one of ${expected.join(', ')})`);
+    this.name = 'UnknownOptionError';
+  }
+}
 
 export class TaskStore {
   private readonly kanbanDir: string;
-  private readonly tasksPath: string;
   private readonly lockPath: string;
+  private readonly repositories = new Map<StorageBackend, TaskRepository>();
+  private readonly archive: TaskRepository; // Always JSON files, whichever backend holds the board
 
-  constructor(private readonly workspaceRoot: string) {
+  constructor(readonly workspaceRoot: string) {
     this.kanbanDir = path.join(workspaceRoot, KANBAN_DIR);
-    this.tasksPath = path.join(this.kanbanDir, TASKS_FILE);
     this.lockPath = path.join(this.kanbanDir, LOCK_FILE);
+    this.archive = new JsonTaskRepository(path.join(this.kanbanDir, ARCHIVE_DIR));
     this.ensureDir();
   }
 
@@ -37,7 +135,7 @@ export class TaskStore {
     }
   }
 
-  private async acquireLock(timeout = 5000): Promise<() => void> {
+  private async acquireLock(timeout = LOCK_TIMEOUT_MS): Promise<() => void> {
     const start = Date.now();
     
     while (Date.now() - start < timeout) {
@@ -55,68 +153,301 @@ export class TaskStore {
         };
       } catch (error: any) {
         if (error.code === 'EEXIST') {
-          // Lock exists, wait and retry
-          await new Promise(resolve => setTimeout(resolve, 50));
+          if (this.breakStaleLock()) {
+            continue;
+          }
+          // Lock exists, wait and retry (jittered so waiting processes don't retry in lockstep)
+          await new Promise(resolve => setTimeout(resolve, 10 + Math.random() * 40));
           continue;
         }
         throw error;
       }
     }
     
-    throw new Error('Failed to acquire lock: timeout');
+    const holder = this.readLockHolder();
+    throw new Error(`Failed to acquire lock: timeout${holder ? ` (held by process ${holder})` : ''}`);
   }
 
-  private readTasks(): Task[] {
+  private readLockHolder(): number | null {
     try {
-      if (!fs.existsSync(this.tasksPath)) {
-        return [];
-      }
-      const data = fs.readFileSync(this.tasksPath, 'utf-8');
-      return JSON.parse(data);
+      const pid = Number(fs.readFileSync(this.lockPath, 'utf-8').trim());
+      return Number.isInteger(pid) && pid > 0 ? pid : null;
     } catch {
-      return [];
+      return null;
     }
   }
 
+  // A lock is stale when its holder is gone, or when it never got a PID written and has sat around.
+  // Returns the stale lock file's identity so it isn't confused with a lock taken after the check.
+  private isLockStale(): { ino: number; pid: number | null } | null {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(this.lockPath);
+    } catch {
+      return null; // Released in the meantime
+    }
+
+    const pid = this.readLockHolder();
+    if (pid === null) {
+      return Date.now() - stat.mtimeMs > LOCK_TIMEOUT_MS ? { ino: stat.ino, pid } : null;
+    }
+    try {
+      process.kill(pid, 0);
+      return null;
+    } catch (error: any) {
+      return error.code === 'ESRCH' ? { ino: stat.ino, pid } : null; // EPERM means it's alive but not ours
+    }
+  }
+
+  // Move a stale lock aside before deleting it, so a lock that was broken and re-acquired by a live
+  // process since the check is put back instead of being deleted from under it
+  private breakStaleLock(): boolean {
+    const stale = this.isLockStale();
+    if (!stale) {
+      return false;
+    }
+
+    const asidePath = `${this.lockPath}.${process.pid}.${uuidv4().split('-')[0]}`;
+    try {
+      fs.renameSync(this.lockPath, asidePath);
+    } catch {
+      return true; // Someone else broke it first; just retry
+    }
+
+    const movedHolder = Number(fs.readFileSync(asidePath, 'utf-8').trim()) || null;
+    if (fs.statSync(asidePath).ino !== stale.ino || movedHolder !== stale.pid) {
+      try {
+        fs.linkSync(asidePath, this.lockPath);
+      } catch {
+        // Another process took the lock in the meantime
+      }
+    }
+    fs.unlinkSync(asidePath);
+    return true;
+  }
+
+  getBoardConfig(): BoardConfig {
+    return loadBoardConfig(this.workspaceRoot);
+  }
+
+  // Call listener whenever a board file changes, whichever process wrote it; returns a stop function
+  watch(listener: () => void): () => void {
+    // Recursive fs.watch needs Node 20 on Linux, so each directory gets its own watcher,
+    // started once the directory exists
+    const watchers = new Map<string, fs.FSWatcher>();
+    const watchDirs = () => {
+      for (const dir of WATCHED_DIRS.map(d => path.join(this.kanbanDir, d))) {
+        if (watchers.has(dir) || !fs.existsSync(dir)) {
+          continue;
+        }
+        const watcher = fs.watch(dir, (_event, file) => {
+          // The lock and half-written temp files aren't changes to the board
+          if (file && (file === LOCK_FILE || file.endsWith('.tmp'))) {
+            return;
+          }
+          watchDirs();
+          listener();
+        });
+        // A removed directory is watched again if it comes back
+        watcher.on('error', () => {
+          watcher.close();
+          watchers.delete(dir);
+        });
+        watchers.set(dir, watcher);
+      }
+    };
+    watchDirs();
+    return () => watchers.forEach(watcher => watcher.close());
+  }
+
+  private assertOption(kind: string, value: string, options: BoardOption[]): void {
+    if (!options.some(o => o.id === value)) {
+      throw new UnknownOptionError(kind, value, options.map(o => o.id));
+    }
+  }
+
+  // Refused moves are kept in the task history before the error is raised
+  private async guardTransition(
+    task: Task,
+    to: Status,
+    by: Actor,
+    reason?: string,
+    sessionId?: string
+  ): Promise<void> {
+    const config = this.getBoardConfig();
+    if (isTransitionAllowed(config.transitions, task.status, to, by)) {
+      return;
+    }
+
+    task.history.push({
+      at: new Date().toISOString(),
+      from: task.status,
+      to,
+      by,
+      reason,
+      sessionId,
+      refused: true
+    });
+    await this.saveTask(task);
+
+    throw new TransitionError(task.status, to, by, allowedTransitions(config, task.status, by));
+  }
+
+  // The backend picked by the board config's "storage" setting, created on first use
+  private repository(): TaskRepository {
+    const backend = this.getBoardConfig().storage;
+    let repository = this.repositories.get(backend);
+    if (!repository) {
+      repository = backend === 'sqlite'
+        ? new SqliteTaskRepository(this.kanbanDir)
+        : new JsonTaskRepository(this.kanbanDir);
+      this.repositories.set(backend, repository);
+    }
+    return repository;
+  }
+
+  private async readTasks(): Promise<Task[]> {
+    return this.repository().readAll();
+  }
+
+  // A task on the board, for mutators that only change that task
+  private async readTask(id: string): Promise<Task> {
+    const task = await this.repository().read(id);
+    if (!task) {
+      throw new TaskNotFoundError(id);
+    }
+    return task;
+  }
+
+  // Only call inside withLock, after reading the tasks there too
   private async writeTasks(tasks: Task[]): Promise<void> {
+    // Bump the revision of every task this write changes
+    const previous = new Map((await this.readTasks()).map(t => [t.id, withoutRevision(t)]));
+    for (const task of tasks) {
+      if (previous.get(task.id) !== withoutRevision(task)) {
+        task.revision += 1;
+      }
+    }
+
+    await this.repository().write(tasks);
+  }
+
+  // Only call inside withLock, after reading the task there too. Stores just this task, so a log
+  // line or heartbeat doesn't rewrite the whole board.
+  private async saveTask(task: Task): Promise<void> {
+    const previous = await this.repository().read(task.id);
+    if (!previous || withoutRevision(previous) !== withoutRevision(task)) {
+      task.revision += 1;
+    }
+    await this.repository().save(task);
+  }
+
+  // Every mutator runs its whole read-modify-write in here, so writers in other processes
+  // (the extension and MCP servers) never overwrite each other's changes
+  private async withLock<T>(fn: () => Promise<T>): Promise<T> {
     const unlock = await this.acquireLock();
     try {
-      const tmpPath = this.tasksPath + '.tmp';
-      fs.writeFileSync(tmpPath, JSON.stringify(tasks, null, 2), 'utf-8');
-      fs.renameSync(tmpPath, this.tasksPath);
+      return await fn();
     } finally {
       unlock();
     }
   }
 
-  async listTasks(filters?: TaskFilters): Promise<PaginatedResult<TaskSummary>> {
-    let tasks = this.readTasks();
+  private assertRevision(task: Task, expectedRevision?: number): void {
+    if (expectedRevision !== undefined && expectedRevision !== task.revision) {
+      throw new RevisionConflictError(task.id, expectedRevision, task.revision);
+    }
+  }
 
-    // Apply filters
-    if (filters?.status?.length) {
-      tasks = tasks.filter(t => filters.status!.includes(t.status));
+  // Unfinished tasks listed in the task's blockedBy
+  private findBlockers<T extends Pick<Task, 'id' | 'title' | 'status'>>(task: Task, tasks: T[]): T[] {
+    if (!task.blockedBy?.length) {
+      return [];
     }
-    if (filters?.category?.length) {
-      tasks = tasks.filter(t => filters.category!.includes(t.category));
+    return tasks.filter(t => task.blockedBy!.includes(t.id) && t.status !== 'FINISHED');
+  }
+
+  private assertNotBlocked(task: Task, tasks: TaskIndexEntry[]): void {
+    const blockers = this.findBlockers(task, tasks);
+    if (blockers.length > 0) {
+      throw new TaskBlockedError(task.id, blockers);
     }
-    if (filters?.priority?.length) {
-      tasks = tasks.filter(t => filters.priority!.includes(t.priority));
+  }
+
+  // Replace the task's blockedBy list, keeping the inverse blocks lists in sync
+  private setBlockers(task: Task, blockedBy: string[], tasks: Task[]): void {
+    const blockerIds = [...new Set(blockedBy)];
+
+    for (const blockerId of blockerIds) {
+      if (blockerId === task.id) {
+        throw new Error('Task cannot block itself');
+      }
+      if (!tasks.some(t => t.id === blockerId)) {
+        throw new Error(`Blocking task not found: ${blockerId}`);
+      }
+      if (this.dependsOn(blockerId, task.id, tasks)) {
+        throw new Error('Dependency would create a cycle');
+      }
     }
-    if (filters?.search) {
-      const search = filters.search.toLowerCase();
-      tasks = tasks.filter(t => 
-        t.title.toLowerCase().includes(search) ||
-        t.description?.toLowerCase().includes(search)
-      );
+
+    for (const other of tasks) {
+      if (other.id === task.id) continue;
+      const blocks = (other.blocks || []).filter(id => id !== task.id);
+      if (blockerIds.includes(other.id)) {
+        blocks.push(task.id);
+      }
+      other.blocks = blocks;
     }
 
-    // Sort by priority (HIGH first) then by createdAt (oldest first for FIFO)
-    const priorityOrder: Record<string, number> = { HIGH: 0, MEDIUM: 1, LOW: 2 };
-    tasks.sort((a, b) => {
-      const pDiff = priorityOrder[a.priority] - priorityOrder[b.priority];
+    task.blockedBy = blockerIds;
+  }
+
+  // Whether taskId (transitively) waits on targetId
+  private dependsOn(taskId: string, targetId: string, tasks: Task[]): boolean {
+    const visited = new Set<string>();
+    const pending = [taskId];
+
+    while (pending.length > 0) {
+      const currentId = pending.pop()!;
+      if (currentId === targetId) return true;
+      if (visited.has(currentId)) continue;
+      visited.add(currentId);
+      const current = tasks.find(t => t.id === currentId);
+      pending.push(...(current?.blockedBy || []));
+    }
+
+    return false;
+  }
+
+  // Sort by configured priority order (most urgent first) then by createdAt (oldest first for FIFO)
+  private sortByPriority(tasks: Task[]): Task[] {
+    const priorities = this.getBoardConfig().priorities.map(p => p.id);
+    const priorityRank = (priority: string) => {
+      const rank = priorities.indexOf(priority);
+      return rank === -1 ? priorities.length : rank;
+    };
+    return tasks.sort((a, b) => {
+      const pDiff = priorityRank(a.priority) - priorityRank(b.priority);
       if (pDiff !== 0) return pDiff;
       return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
     });
+  }
+
+  async listTasks(filters?: TaskFilters): Promise<PaginatedResult<TaskSummary>> {
+    // The backend filters by status, category and priority; blockers only need the index
+    const repository = this.repository();
+    const query = { status: filters?.status, category: filters?.category, priority: filters?.priority };
+    let tasks = await repository.query(query);
+    if (filters?.includeArchived) {
+      tasks.push(...await this.archive.query(query));
+    }
+    const index = await repository.readIndex();
+
+    if (filters?.search) {
+      tasks = tasks.filter(t => this.matchesSearch(t, filters.search!));
+    }
+
+    this.sortByPriority(tasks);
 
     // Pagination
     const limit = filters?.limit || 100;
@@ -131,172 +462,458 @@ export class TaskStore {
     const paginatedTasks = tasks.slice(startIndex, startIndex + limit);
     const hasMore = startIndex + limit < tasks.length;
 
-    const items: TaskSummary[] = paginatedTasks.map(t => {
-      // Get recent logs from the active or last session
-      let recentLogs: LogEntry[] = [];
-      if (t.runSessions.length > 0) {
-        const activeSession = t.runSessions.find(s => s.status === 'running');
-        const lastSession = activeSession || t.runSessions[t.runSessions.length - 1];
-        if (lastSession && lastSession.logs.length > 0) {
-          // Get the last 3 logs
-          recentLogs = lastSession.logs.slice(-3);
-        }
+    return {
+      items: paginatedTasks.map(t => this.toSummary(t, index)),
+      nextCursor: hasMore ? paginatedTasks[paginatedTasks.length - 1]?.id ?? null : null
+    };
+  }
+
+  // Archived tasks, most recently archived first
+  async listArchivedTasks(search?: string): Promise<TaskSummary[]> {
+    const index = await this.repository().readIndex();
+    return (await this.archive.readAll())
+      .filter(t => !search || this.matchesSearch(t, search))
+      .sort((a, b) => (b.archivedAt ?? '').localeCompare(a.archivedAt ?? ''))
+      .map(t => this.toSummary(t, index));
+  }
+
+  private matchesSearch(task: Task, search: string): boolean {
+    const query = search.toLowerCase();
+    return task.title.toLowerCase().includes(query) || !!task.description?.toLowerCase().includes(query);
+  }
+
+  private toSummary(t: Task, index: TaskIndexEntry[]): TaskSummary {
+    // Get recent logs from the active or last session
+    let recentLogs: LogEntry[] = [];
+    const activeSession = t.runSessions.find(s => s.status === 'running');
+    if (t.runSessions.length > 0) {
+      const lastSession = activeSession || t.runSessions[t.runSessions.length - 1];
+      if (lastSession && lastSession.logs.length > 0) {
+        // Get the last 3 logs
+        recentLogs = lastSession.logs.slice(-3);
       }
-      
-      return {
-        id: t.id,
-        title: t.title,
-        status: t.status,
-        category: t.category,
-        priority: t.priority,
-        updatedAt: t.updatedAt,
-        recentLogs: recentLogs.length > 0 ? recentLogs : undefined
-      };
-    });
+    }
+
+    const blockers: TaskRef[] = this.findBlockers(t, index).map(b => ({ id: b.id, title: b.title }));
+    const checklist = t.checklist || [];
 
     return {
-      items,
-      nextCursor: hasMore ? paginatedTasks[paginatedTasks.length - 1]?.id ?? null : null
+      id: t.id,
+      title: t.title,
+      status: t.status,
+      category: t.category,
+      priority: t.priority,
+      updatedAt: t.updatedAt,
+      revision: t.revision,
+      recentLogs: recentLogs.length > 0 ? recentLogs : undefined,
+      activeSessionId: activeSession?.sessionId,
+      abandonedRun: t.abandonedRun,
+      blockers: blockers.length > 0 ? blockers : undefined,
+      checklistProgress: checklist.length > 0
+        ? { done: checklist.filter(i => i.done).length, total: checklist.length }
+        : undefined,
+      archivedAt: t.archivedAt
     };
   }
 
+  // Board tasks first, then the archive
   async getTask(id: string): Promise<Task | null> {
-    const tasks = this.readTasks();
-    return tasks.find(t => t.id === id) || null;
+    return (await this.repository().read(id)) ?? this.archive.read(id);
   }
 
-  async createTask(input: CreateTaskInput): Promise<Task> {
-    if (!input.title || input.title.length < 3) {
-      throw new Error('Title must be at least 3 characters');
+  // Branch name from the project's template, suffixed when another task or a local branch already uses it
+  async suggestBranchName(task: Pick<Task, 'id' | 'title' | 'category' | 'priority'>): Promise<string> {
+    const name = renderBranchName(this.getBoardConfig().branchTemplate, task);
+    const taken = new Set(
+      (await this.readTasks())
+        .filter(t => t.id !== task.id && t.branchTarget.name)
+        .map(t => t.branchTarget.name!)
+    );
+
+    const git = this.gitFor();
+    if (await git.isGitRepo()) {
+      for (const branch of await git.listBranches()) {
+        taken.add(branch);
+      }
     }
 
-    const now = new Date().toISOString();
-    const task: Task = {
-      id: uuidv4(),
-      title: input.title,
-      description: input.description,
-      category: input.category,
-      priority: input.priority,
-      branchTarget: input.branchTarget,
-      status: 'BACKLOG',
-      createdAt: now,
-      updatedAt: now,
-      history: [
-        {
-          at: now,
-          from: null,
-          to: 'BACKLOG',
-          by: 'user'
-        }
-      ],
-      runSessions: []
-    };
+    return uniqueBranchName(name, taken);
+  }
 
-    const tasks = this.readTasks();
-    tasks.push(task);
-    await this.writeTasks(tasks);
+  async getBlockers(id: string): Promise<Task[]> {
+    const tasks = await this.readTasks();
+    const task = tasks.find(t => t.id === id);
 
-    return task;
+    if (!task) {
+      throw new TaskNotFoundError(id);
+    }
+
+    return this.findBlockers(task, tasks);
+  }
+
+  async createTask(input: CreateTaskInput): Promise<Task> {
+    return this.withLock(async () => {
+      if (!input.title || input.title.length < 3) {
+        throw new Error('Title must be at least 3 characters');
+      }
+
+      const config = this.getBoardConfig();
+      this.assertOption('category', input.category, config.categories);
+      this.assertOption('priority', input.priority, config.priorities);
+      if (input.branchTarget?.name) assertValidBranchName(input.branchTarget.name);
+
+      const now = new Date().toISOString();
+      const task: Task = {
+        id: uuidv4(),
+        title: input.title,
+        description: input.description,
+        category: input.category,
+        priority: input.priority,
+        branchTarget: input.branchTarget,
+        status: 'BACKLOG',
+        createdAt: now,
+        updatedAt: now,
+        revision: 0,
+        history: [
+          {
+            at: now,
+            from: null,
+            to: 'BACKLOG',
+            by: 'user'
+          }
+        ],
+        runSessions: []
+      };
+
+      if (input.checklist?.length) {
+        task.checklist = input.checklist.map(text => this.buildChecklistItem(text));
+      }
+
+      // A new branch without a name gets one from the project's template
+      if (task.branchTarget.type === 'new' && !task.branchTarget.name) {
+        task.branchTarget = { type: 'new', name: await this.suggestBranchName(task) };
+      }
+
+      if (!input.blockedBy?.length) {
+        await this.saveTask(task);
+        return task;
+      }
+
+      // Blockers list the new task in their blocks, so they're written too
+      const tasks = await this.readTasks();
+      this.setBlockers(task, input.blockedBy, tasks);
+      tasks.push(task);
+      await this.writeTasks(tasks);
+
+      return task;
+    });
   }
 
   async updateTask(id: string, input: UpdateTaskInput): Promise<Task> {
-    const tasks = this.readTasks();
-    const index = tasks.findIndex(t => t.id === id);
-    
-    if (index === -1) {
-      throw new Error('Task not found');
-    }
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      this.assertRevision(task, input.expectedRevision);
 
-    const task = tasks[index];
-    const now = new Date().toISOString();
+      const now = new Date().toISOString();
+      const config = this.getBoardConfig();
 
-    if (input.title !== undefined) task.title = input.title;
-    if (input.description !== undefined) task.description = input.description;
-    if (input.category !== undefined) task.category = input.category;
-    if (input.priority !== undefined) task.priority = input.priority;
-    if (input.branchTarget !== undefined) task.branchTarget = input.branchTarget;
-    
-    task.updatedAt = now;
-    tasks[index] = task;
-    
-    await this.writeTasks(tasks);
-    return task;
+      if (input.category !== undefined) this.assertOption('category', input.category, config.categories);
+      if (input.priority !== undefined) this.assertOption('priority', input.priority, config.priorities);
+      if (input.branchTarget?.name) assertValidBranchName(input.branchTarget.name);
+
+      if (input.title !== undefined) task.title = input.title;
+      if (input.description !== undefined) task.description = input.description;
+      if (input.category !== undefined) task.category = input.category;
+      if (input.priority !== undefined) task.priority = input.priority;
+      if (input.branchTarget !== undefined) task.branchTarget = input.branchTarget;
+      task.updatedAt = now;
+
+      if (input.blockedBy === undefined) {
+        await this.saveTask(task);
+        return task;
+      }
+
+      // Changing dependencies also updates the blocks lists of other tasks
+      const tasks = (await this.readTasks()).map(t => (t.id === id ? task : t));
+      this.setBlockers(task, input.blockedBy, tasks);
+      await this.writeTasks(tasks);
+      return task;
+    });
   }
 
   async deleteTask(id: string): Promise<void> {
-    const tasks = this.readTasks();
-    const index = tasks.findIndex(t => t.id === id);
+    return this.withLock(async () => {
+      const tasks = await this.readTasks();
+      const index = tasks.findIndex(t => t.id === id);
     
-    if (index === -1) {
-      throw new Error('Task not found');
+      if (index === -1) {
+        if (!await this.archive.read(id)) {
+          throw new TaskNotFoundError(id);
+        }
+        await this.archive.delete(id);
+        return;
+      }
+
+      tasks.splice(index, 1);
+
+      // Drop dangling dependency links
+      for (const other of tasks) {
+        if (other.blockedBy?.includes(id)) other.blockedBy = other.blockedBy.filter(b => b !== id);
+        if (other.blocks?.includes(id)) other.blocks = other.blocks.filter(b => b !== id);
+      }
+
+      await this.writeTasks(tasks);
+    });
+  }
+
+  // Move a task in any column off the board into .cursor-kanban/archive, unless a run holds it
+  async archiveTask(id: string): Promise<Task> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      this.expireReservations(task);
+      if (task.runSessions.some(s => s.status === 'running' || s.status === 'pending')) {
+        throw new Error('Stop the task\'s run before archiving it');
+      }
+
+      await this.moveToArchive([task], new Date());
+      return task;
+    });
+  }
+
+  // Archive finished tasks once archiveAfterDays have passed; the extension calls this periodically
+  async archiveFinishedTasks(now = new Date()): Promise<Task[]> {
+    const { archiveAfterDays } = this.getBoardConfig();
+    if (archiveAfterDays === null) {
+      return [];
     }
 
-    tasks.splice(index, 1);
-    await this.writeTasks(tasks);
+    return this.withLock(async () => {
+      const finished = await this.repository().query({ status: ['FINISHED'] });
+      const cutoff = now.getTime() - archiveAfterDays * DAY_MS;
+      const expired = finished.filter(t => new Date(finishedAt(t)).getTime() <= cutoff);
+
+      if (expired.length > 0) {
+        await this.moveToArchive(expired, now);
+      }
+      return expired;
+    });
   }
 
-  async updateStatus(input: UpdateStatusInput): Promise<Task> {
-    const tasks = this.readTasks();
-    const index = tasks.findIndex(t => t.id === input.id);
-    
-    if (index === -1) {
-      throw new Error('Task not found');
+  // Put an archived task back on the board, at the end
+  async restoreTask(id: string): Promise<Task> {
+    return this.withLock(async () => {
+      const task = await this.archive.read(id);
+
+      if (!task) {
+        throw new TaskNotFoundError(id, true);
+      }
+
+      delete task.archivedAt;
+      // Board first, so an interrupted restore leaves a copy behind rather than losing the task
+      await this.saveTask(task);
+      await this.archive.delete(id);
+      return task;
+    });
+  }
+
+  // Only call inside withLock. The archive is written first, for the same reason as in restoreTask.
+  private async moveToArchive(moving: Task[], now: Date): Promise<void> {
+    const movingIds = moving.map(t => t.id);
+    const linkedIds = new Set(moving.flatMap(t => [...(t.blocks || []), ...(t.blockedBy || [])]));
+
+    // Dependency links are dropped on both sides, as when the task is deleted
+    for (const task of moving) {
+      task.archivedAt = now.toISOString();
+      delete task.blocks;
+      delete task.blockedBy;
+      task.revision += 1;
+      await this.archive.save(task);
+    }
+    for (const task of moving) {
+      await this.repository().delete(task.id);
     }
 
-    const task = tasks[index];
-    const now = new Date().toISOString();
-    const previousStatus = task.status;
+    for (const id of linkedIds) {
+      const other = movingIds.includes(id) ? null : await this.repository().read(id);
+      if (other) {
+        other.blocks = other.blocks?.filter(b => !movingIds.includes(b));
+        other.blockedBy = other.blockedBy?.filter(b => !movingIds.includes(b));
+        await this.saveTask(other);
+      }
+    }
+  }
 
-    const historyEntry: HistoryEntry = {
-      at: now,
-      from: previousStatus,
-      to: input.status,
-      by: input.by,
-      reason: input.reason,
-      sessionId: input.sessionId
-    };
+  async updateStatus(input: UpdateStatusInput): Promise<Task> {
+    return this.withLock(async () => {
+      this.assertOption('status', input.status, this.getBoardConfig().columns);
 
-    task.status = input.status;
-    task.updatedAt = now;
-    task.history.push(historyEntry);
+      const task = await this.readTask(input.id);
+      this.assertRevision(task, input.expectedRevision);
+      await this.guardTransition(task, input.status, input.by, input.reason, input.sessionId);
 
-    tasks[index] = task;
-    await this.writeTasks(tasks);
+      const now = new Date().toISOString();
+      const previousStatus = task.status;
 
-    return task;
+      const historyEntry: HistoryEntry = {
+        at: now,
+        from: previousStatus,
+        to: input.status,
+        by: input.by,
+        reason: input.reason,
+        sessionId: input.sessionId
+      };
+
+      task.status = input.status;
+      task.updatedAt = now;
+      task.history.push(historyEntry);
+
+      // A user moving the task has seen the abandoned run flag
+      if (input.by === 'user') {
+        delete task.abandonedRun;
+      }
+      const session = input.sessionId && task.runSessions.find(s => s.sessionId === input.sessionId);
+      if (session && session.status === 'running') {
+        session.lastSeenAt = now;
+      }
+
+      await this.saveTask(task);
+
+      return task;
+    });
   }
 
-  async startRun(id: string): Promise<RunSession> {
-    const tasks = this.readTasks();
-    const index = tasks.findIndex(t => t.id === id);
-    
-    if (index === -1) {
-      throw new Error('Task not found');
+  // Mark pending sessions past their expiry; returns whether any changed
+  private expireReservations(task: Task, now = new Date()): boolean {
+    let changed = false;
+    for (const session of task.runSessions) {
+      if (session.status === 'pending' && session.expiresAt && new Date(session.expiresAt) <= now) {
+        session.status = 'expired';
+        session.endedAt = session.expiresAt;
+        session.logs.push({
+          timestamp: now.toISOString(),
+          message: 'Reservation expired before an agent started the run',
+          type: 'warning'
+        });
+        changed = true;
+      }
     }
+    return changed;
+  }
 
-    const task = tasks[index];
+  // Reserve a session for a run handed to an agent; startRun activates it by ID
+  async reserveRun(id: string, ttlMinutes = DEFAULT_RESERVATION_MINUTES): Promise<RunSession> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      if (task.runSessions.some(s => s.status === 'running')) {
+        throw new RunAlreadyActiveError(id);
+      }
+      this.assertNotBlocked(task, await this.repository().readIndex());
+
+      const now = new Date();
+      const expiresAt = new Date(now.getTime() + ttlMinutes * 60_000).toISOString();
+      this.expireReservations(task, now);
+
+      // Running the task again extends the outstanding reservation instead of stacking another
+      let session = task.runSessions.find(s => s.status === 'pending');
+      if (session) {
+        session.expiresAt = expiresAt;
+      } else {
+        session = {
+          sessionId: `run_${uuidv4().split('-')[0]}`,
+          startedAt: now.toISOString(),
+          reservedAt: now.toISOString(),
+          expiresAt,
+          status: 'pending',
+          logs: [{
+            timestamp: now.toISOString(),
+            message: 'Run reserved, waiting for an agent to start it',
+            type: 'info'
+          }]
+        };
+        task.runSessions.push(session);
+      }
+      task.updatedAt = now.toISOString();
+
+      await this.saveTask(task);
+
+      return session;
+    });
+  }
+
+  // Starts the given reserved session, or the task's outstanding reservation, or a new session
+  async startRun(id: string, sessionId?: string): Promise<RunSession> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
     
-    // Check if there's already a running session
-    const existingRunning = task.runSessions.find(s => s.status === 'running');
-    if (existingRunning) {
-      throw new Error('Task already has a running session');
-    }
+      // Check if there's already a running session
+      const existingRunning = task.runSessions.find(s => s.status === 'running');
+      if (existingRunning) {
+        throw new RunAlreadyActiveError(id);
+      }
 
+      if (this.expireReservations(task)) {
+        await this.saveTask(task);
+      }
+
+      let reserved: RunSession | undefined;
+      if (sessionId) {
+        reserved = task.runSessions.find(s => s.sessionId === sessionId);
+        if (!reserved) {
+          throw new SessionNotFoundError(id, sessionId);
+        }
+        if (reserved.status === 'expired') {
+          throw new Error('Session reservation expired; run the task again to get a new session');
+        }
+        if (reserved.status !== 'pending') {
+          throw new Error(`Session is ${reserved.status}, not pending`);
+        }
+      } else {
+        reserved = task.runSessions.find(s => s.status === 'pending');
+      }
+
+      this.assertNotBlocked(task, await this.repository().readIndex());
+      await this.guardTransition(task, 'IN_PROGRESS', 'system');
+
+      const session = await this.activateSession(task, reserved);
+
+      await this.saveTask(task);
+
+      return session;
+    });
+  }
+
+  // Starts the reserved (or a new) session and moves the task to IN_PROGRESS; callers check the transition
+  private async activateSession(task: Task, reserved?: RunSession, claimedBy?: string): Promise<RunSession> {
     const now = new Date().toISOString();
-    const sessionId = `run_${uuidv4().split('-')[0]}`;
+    const startCommit = await this.gitFor(task.worktree).getHeadCommit();
+    const startLog: LogEntry = {
+      timestamp: now,
+      message: task.worktree
+        ? `Task execution started in worktree ${task.worktree.path}`
+        : 'Task execution started',
+      type: 'info'
+    };
 
-    const session: RunSession = {
-      sessionId,
+    const session: RunSession = reserved ?? {
+      sessionId: `run_${uuidv4().split('-')[0]}`,
       startedAt: now,
       status: 'running',
-      logs: [{
-        timestamp: now,
-        message: 'Task execution started',
-        type: 'info'
-      }]
+      logs: []
     };
+    session.startedAt = now;
+    session.lastSeenAt = now;
+    session.status = 'running';
+    session.logs.push(startLog);
+    session.worktree = task.worktree;
+    session.startCommit = startCommit ?? undefined;
+    if (claimedBy) {
+      session.claimedBy = claimedBy;
+    }
 
-    task.runSessions.push(session);
+    if (!reserved) {
+      task.runSessions.push(session);
+    }
+    delete task.abandonedRun;
     
     // Update status to IN_PROGRESS
     const historyEntry: HistoryEntry = {
@@ -304,114 +921,378 @@ export class TaskStore {
       from: task.status,
       to: 'IN_PROGRESS',
       by: 'system',
-      sessionId
+      reason: claimedBy ? `Claimed by ${claimedBy}` : undefined,
+      sessionId: session.sessionId
     };
 
     task.status = 'IN_PROGRESS';
     task.updatedAt = now;
     task.history.push(historyEntry);
 
-    tasks[index] = task;
-    await this.writeTasks(tasks);
-
     return session;
   }
 
   async stopRun(id: string, sessionId: string): Promise<Task> {
-    const tasks = this.readTasks();
-    const index = tasks.findIndex(t => t.id === id);
-    
-    if (index === -1) {
-      throw new Error('Task not found');
-    }
+    return this.withLock(async () => this.stopSession(id, sessionId));
+  }
+
+  // Stop whichever session is running, for callers that don't track session IDs
+  async stopActiveRun(id: string): Promise<Task> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      const activeSession = task.runSessions.find(s => s.status === 'running');
+      if (!activeSession) {
+        throw new Error('Task has no running session');
+      }
+
+      return this.stopSession(id, activeSession.sessionId);
+    });
+  }
 
-    const task = tasks[index];
+  // Caller holds the lock
+  private async stopSession(id: string, sessionId: string): Promise<Task> {
+    const task = await this.readTask(id);
     const sessionIndex = task.runSessions.findIndex(s => s.sessionId === sessionId);
     
     if (sessionIndex === -1) {
-      throw new Error('Session not found');
+      throw new SessionNotFoundError(id, sessionId);
     }
 
     const now = new Date().toISOString();
+    const session = task.runSessions[sessionIndex];
     
-    task.runSessions[sessionIndex].endedAt = now;
-    task.runSessions[sessionIndex].status = 'stopped';
+    session.endedAt = now;
+    session.status = 'stopped';
+    session.changes = await this.captureChanges(session);
 
-    // Update status to WAITING_APPROVAL
+    // The session always ends; the task only moves to WAITING_APPROVAL when the workflow allows it,
+    // e.g. not when someone moved the running task back to the backlog
+    const canMove = isTransitionAllowed(this.getBoardConfig().transitions, task.status, 'WAITING_APPROVAL', 'system');
     const historyEntry: HistoryEntry = {
       at: now,
       from: task.status,
-      to: 'WAITING_APPROVAL',
+      to: canMove ? 'WAITING_APPROVAL' : task.status,
       by: 'system',
+      reason: canMove ? undefined : `Run stopped; the workflow doesn't allow moving ${task.status} to WAITING_APPROVAL`,
       sessionId
     };
 
-    task.status = 'WAITING_APPROVAL';
+    task.status = historyEntry.to;
     task.updatedAt = now;
     task.history.push(historyEntry);
 
-    tasks[index] = task;
-    await this.writeTasks(tasks);
+    if (task.stash) {
+      await this.restoreStash(task, sessionId);
+    }
+
+    await this.saveTask(task);
 
     return task;
   }
 
+  // Tell the board the agent driving a session is still alive
+  async heartbeat(id: string, sessionId: string): Promise<RunSession> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      const session = task.runSessions.find(s => s.sessionId === sessionId);
+
+      if (!session) {
+        throw new SessionNotFoundError(id, sessionId);
+      }
+      if (session.status !== 'running') {
+        throw new Error(`Session is ${session.status}, not running`);
+      }
+
+      session.lastSeenAt = new Date().toISOString();
+
+      await this.saveTask(task);
+
+      return session;
+    });
+  }
+
+  // Abandon running sessions with no heartbeat within the configured timeout and expire stale
+  // reservations; returns the tasks whose runs were abandoned
+  async markAbandonedRuns(now = new Date()): Promise<Task[]> {
+    return this.withLock(async () => {
+      const config = this.getBoardConfig();
+      const tasks = await this.readTasks();
+      const cutoff = now.getTime() - config.runTimeoutMinutes * 60_000;
+      const abandoned: Task[] = [];
+      let changed = false;
+
+      for (const task of tasks) {
+        changed = this.expireReservations(task, now) || changed;
+
+        const session = task.runSessions.find(s => s.status === 'running');
+        const lastSeenAt = session?.lastSeenAt ?? session?.startedAt;
+        if (!session || !lastSeenAt || new Date(lastSeenAt).getTime() > cutoff) {
+          continue;
+        }
+
+        const at = now.toISOString();
+        const silentMinutes = Math.round((now.getTime() - new Date(lastSeenAt).getTime()) / 60_000);
+        const reason = `Session ${session.sessionId} abandoned: no heartbeat for ${silentMinutes} minutes`;
+
+        session.status = 'abandoned';
+        session.endedAt = at;
+        session.logs.push({ timestamp: at, message: reason, type: 'warning' });
+
+        // Return the task to the backlog when the workflow allows it, otherwise flag it in place
+        const to = config.abandonedRunAction === 'backlog'
+          && isTransitionAllowed(config.transitions, task.status, 'BACKLOG', 'system')
+          ? 'BACKLOG'
+          : task.status;
+        const abandonedRun: AbandonedRun = { sessionId: session.sessionId, lastSeenAt, detectedAt: at };
+
+        task.history.push({ at, from: task.status, to, by: 'system', reason, sessionId: session.sessionId });
+        if (to === task.status) {
+          task.abandonedRun = abandonedRun;
+        } else {
+          delete task.abandonedRun;
+        }
+        task.status = to;
+        task.updatedAt = at;
+
+        abandoned.push(task);
+        changed = true;
+      }
+
+      if (changed) {
+        await this.writeTasks(tasks);
+      }
+
+      return abandoned;
+    });
+  }
+
+  // Git access for the checkout a run works in
+  private gitFor(worktree?: WorktreeInfo): GitHelper {
+    return new GitHelper(worktree?.path ?? this.workspaceRoot);
+  }
+
+  private async captureChanges(session: RunSession): Promise<SessionChanges | undefined> {
+    if (!session.startCommit) {
+      return undefined;
+    }
+    const git = this.gitFor(session.worktree);
+    try {
+      const headCommit = await git.getHeadCommit();
+      return headCommit ? await git.getChanges(session.startCommit, headCommit) : undefined;
+    } catch {
+      return undefined; // Worktree removed or history rewritten
+    }
+  }
+
   async addLog(
     id: string, 
     sessionId: string, 
     message: string, 
     type: 'progress' | 'milestone' | 'warning' | 'error' | 'info' = 'progress'
   ): Promise<LogEntry> {
-    const tasks = this.readTasks();
-    const index = tasks.findIndex(t => t.id === id);
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      const sessionIndex = task.runSessions.findIndex(s => s.sessionId === sessionId);
     
-    if (index === -1) {
-      throw new Error('Task not found');
-    }
+      if (sessionIndex === -1) {
+        throw new SessionNotFoundError(id, sessionId);
+      }
 
-    const task = tasks[index];
-    const sessionIndex = task.runSessions.findIndex(s => s.sessionId === sessionId);
+      const logEntry: LogEntry = {
+        timestamp: new Date().toISOString(),
+        message,
+        type
+      };
+
+      task.runSessions[sessionIndex].logs.push(logEntry);
+      // Every log doubles as a heartbeat
+      task.runSessions[sessionIndex].lastSeenAt = logEntry.timestamp;
+      task.updatedAt = new Date().toISOString();
     
-    if (sessionIndex === -1) {
-      throw new Error('Session not found');
-    }
+      await this.saveTask(task);
 
-    const logEntry: LogEntry = {
-      timestamp: new Date().toISOString(),
-      message,
-      type
-    };
+      return logEntry;
+    });
+  }
 
-    task.runSessions[sessionIndex].logs.push(logEntry);
-    task.updatedAt = new Date().toISOString();
-    
-    tasks[index] = task;
-    await this.writeTasks(tasks);
+  async setWorktree(id: string, worktree: WorktreeInfo | null): Promise<Task> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      if (worktree) {
+        task.worktree = worktree;
+      } else {
+        delete task.worktree;
+      }
+      task.updatedAt = new Date().toISOString();
+
+      await this.saveTask(task);
 
-    return logEntry;
+      return task;
+    });
   }
 
-  async claimNextTask(categories?: string[], priorities?: string[]): Promise<Task | null> {
-    const filters: TaskFilters = {
-      status: ['BACKLOG']
-    };
+  // Record how uncommitted changes were handled before a run switched branches
+  async recordDirtyTreeChoice(
+    id: string,
+    choice: DirtyTreeChoice,
+    detail: { stash?: StashInfo; commit?: string } = {}
+  ): Promise<Task> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      const now = new Date().toISOString();
+      const reasons: Record<DirtyTreeChoice, string> = {
+        'stash': `Uncommitted changes on ${detail.stash?.branch} stashed (${detail.stash?.ref.slice(0, 7)}) before the run`,
+        'commit-wip': `Uncommitted changes committed as WIP (${detail.commit?.slice(0, 7)}) before the run`,
+        'abort': 'Run aborted because of uncommitted changes'
+      };
 
-    if (categories?.length) {
-      filters.category = categories as any;
-    }
-    if (priorities?.length) {
-      filters.priority = priorities as any;
+      if (choice === 'stash' && detail.stash) {
+        task.stash = detail.stash;
+      }
+      task.history.push({
+        at: now,
+        from: task.status,
+        to: task.status,
+        by: 'user',
+        reason: reasons[choice]
+      });
+      task.updatedAt = now;
+
+      await this.saveTask(task);
+
+      return task;
+    });
+  }
+
+  // Pop the changes stashed before the run onto the branch they came from, checking it out again
+  // when the run switched branches, so they never land on the run's branch. If the run's branch has
+  // uncommitted changes of its own, or the pop fails, the stash stays for the user.
+  private async restoreStash(task: Task, sessionId: string): Promise<void> {
+    const stash = task.stash!;
+    const ref = stash.ref.slice(0, 7);
+    const git = this.gitFor();
+    let reason: string;
+    try {
+      const current = await git.getCurrentBranch();
+      if (current !== stash.branch && await git.hasUncommittedChanges([KANBAN_DIR])) {
+        reason = `Kept changes stashed from ${stash.branch} (${ref}) because ${current} has uncommitted changes; commit them, check out ${stash.branch} and run "git stash pop" to restore them`;
+      } else if (current !== stash.branch) {
+        await git.checkoutBranch(stash.branch);
+        await git.restoreStash(stash.ref);
+        delete task.stash;
+        reason = `Checked out ${stash.branch} again and restored the changes stashed there (${ref})`;
+      } else {
+        await git.restoreStash(stash.ref);
+        delete task.stash;
+        reason = `Restored changes stashed from ${stash.branch} (${ref})`;
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      reason = `Could not restore stash ${stash.ref.slice(0, 7)}: ${message}`;
     }
+    task.history.push({
+      at: new Date().toISOString(),
+      from: task.status,
+      to: task.status,
+      by: 'system',
+      reason,
+      sessionId
+    });
+  }
 
-    const result = await this.listTasks(filters);
-    
-    if (result.items.length === 0) {
-      return null;
+  private buildChecklistItem(text: string): ChecklistItem {
+    if (!text || !text.trim()) {
+      throw new Error('Checklist item text is required');
     }
+    return {
+      id: `item_${uuidv4().split('-')[0]}`,
+      text: text.trim(),
+      done: false
+    };
+  }
+
+  async addChecklistItem(id: string, text: string): Promise<ChecklistItem> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      const item = this.buildChecklistItem(text);
+
+      task.checklist = [...(task.checklist || []), item];
+      task.updatedAt = new Date().toISOString();
 
-    // Return the first task (already sorted by priority and FIFO)
-    const taskId = result.items[0].id;
-    return this.getTask(taskId);
+      await this.saveTask(task);
+
+      return item;
+    });
+  }
+
+  async setChecklistItem(
+    id: string,
+    itemId: string,
+    done: boolean,
+    by: Actor
+  ): Promise<ChecklistItem> {
+    return this.withLock(async () => {
+      const task = await this.readTask(id);
+      const item = task.checklist?.find(i => i.id === itemId);
+
+      if (!item) {
+        throw new Error('Checklist item not found');
+      }
+
+      const now = new Date().toISOString();
+
+      item.done = done;
+      if (done) {
+        item.completedAt = now;
+        item.completedBy = by;
+      } else {
+        delete item.completedAt;
+        delete item.completedBy;
+      }
+      task.updatedAt = now;
+
+      await this.saveTask(task);
+
+      return item;
+    });
   }
-}
 
+  // Selects and starts the next task in one critical section, so concurrent agents never get the same task
+  async claimNextTask(
+    categories?: string[],
+    priorities?: string[],
+    agent = 'agent'
+  ): Promise<{ task: Task; sessionId: string } | null> {
+    return this.withLock(async () => {
+      const tasks = await this.readTasks();
+      const config = this.getBoardConfig();
+      const now = new Date();
+
+      const candidates = this.sortByPriority(tasks.filter(t =>
+        t.status === 'BACKLOG'
+        && (!categories?.length || categories.includes(t.category))
+        && (!priorities?.length || priorities.includes(t.priority))
+      ));
+
+      const expired = candidates.filter(t => this.expireReservations(t, now)).length > 0;
+
+      // Skip blocked tasks and ones reserved by Run for another agent
+      const task = candidates.find(t =>
+        this.findBlockers(t, tasks).length === 0
+        && !t.runSessions.some(s => s.status === 'pending')
+        && isTransitionAllowed(config.transitions, t.status, 'IN_PROGRESS', 'system')
+      );
+      if (!task) {
+        if (expired) {
+          await this.writeTasks(tasks);
+        }
+        return null;
+      }
+
+      const session = await this.activateSession(task, undefined, agent);
+      await this.writeTasks(tasks);
+
+      return { task, sessionId: session.sessionId };
+    });
+  }
+}
@@ -0,0 +1,173 @@
+import { Task, TaskSummary } from './types';
+
+// Instructions handed to agents, shared by the extension's Run (copied to the clipboard) and the
+// MCP server's prompts so both say the same thing
+
+export type PromptTask = Pick<Task, 'id' | 'title' | 'description' | 'category' | 'priority' | 'checklist' | 'worktree'> & {
+  branchTarget: { type: string; name?: string };
+};
+
+export interface PromptContext {
+  projectName?: string;
+  projectId?: string; // Only for boards other than the MCP server's default, which tool calls must name
+  runTimeoutMinutes?: number;
+}
+
+function projectIdLine(context: PromptContext): string {
+  return context.projectId
+    ? `\n**Project ID:** \`${context.projectId}\` (pass \`project: "${context.projectId}"\` to every kanban tool call)`
+    : '';
+}
+
+// Without a reserved session the agent starts one itself and uses the ID startRun returns
+export function renderExecuteTaskPrompt(task: PromptTask, sessionId: string | undefined, context: PromptContext = {}): string {
+  const { projectName, runTimeoutMinutes = 30 } = context;
+  const session = sessionId ?? '<sessionId>';
+  const branchInfo = task.branchTarget.type === 'current'
+    ? 'current branch'
+    : `branch: ${task.branchTarget.name}`;
+  const checklist = task.checklist || [];
+  const checklistInfo = checklist.length > 0
+    ? `### Checklist\n${checklist.map(i => `- [${i.done ? 'x' : ' '}] ${i.text} (itemId: \`${i.id}\`)`).join('\n')}\n`
+    : '';
+  const worktreeInfo = task.worktree
+    ? `### Workspace\nThis task runs in an isolated git worktree at \`${task.worktree.path}\` (branch \`${task.worktree.branch}\`). Make all file changes and run all commands inside that directory; do not modify the main working tree.\n`
+    : '';
+  const startRun = sessionId
+    ? `kanban.startRun({ id: "${task.id}", sessionId: "${sessionId}" })`
+    : `kanban.startRun({ id: "${task.id}" })`;
+
+  return `## Kanban Task Execution Request
+
+**Task ID:** \`${task.id}\`
+**Session ID:** ${sessionId ? `\`${sessionId}\`` : 'returned by `kanban.startRun`'}
+**Project:** ${projectName || 'Unknown'}${projectIdLine(context)}
+**Title:** ${task.title}
+**Category:** ${task.category} | **Priority:** ${task.priority}
+**Branch:** ${branchInfo}${task.worktree ? `\n**Worktree:** \`${task.worktree.path}\`` : ''}
+
+${task.description ? `### Description\n${task.description}\n` : ''}${checklistInfo}${worktreeInfo}
+### Instructions
+
+Execute this task from the Kanban board. Follow these guidelines:
+
+1. **Start the Task**: First, mark the task as in progress using MCP:
+   \`\`\`
+   ${startRun}
+   \`\`\`
+${sessionId ? '' : '   Use the `sessionId` it returns wherever `<sessionId>` appears below.\n'}
+2. **Understand the Task**: Analyze the requirements based on the title${task.description ? ' and description' : ''} above.
+
+3. **Implementation**: Proceed with the implementation following best practices for the ${task.category} category.
+
+4. **Progress Tracking**: When reaching significant milestones, update the task via MCP:
+   \`\`\`
+   kanban.updateStatus({
+     id: "${task.id}",
+     status: "IN_PROGRESS",
+     by: "agent",
+     reason: "<describe current progress>",
+     sessionId: "${session}"
+   })
+   \`\`\`
+${checklist.length > 0 ? `   As you satisfy each checklist item, tick it off:
+   \`\`\`
+   kanban.setChecklistItem({ id: "${task.id}", itemId: "<itemId>", done: true })
+   \`\`\`
+` : ''}   Log or send a heartbeat at least every ${runTimeoutMinutes} minutes, or the session is marked abandoned:
+   \`\`\`
+   kanban.heartbeat({ id: "${task.id}", sessionId: "${session}" })
+   \`\`\`
+
+5. **Completion**: When the task is complete:
+   - Ensure all changes are saved
+   - Call \`kanban.stopRun({ id: "${task.id}", sessionId: "${session}" })\` to move the task to "Waiting Approval"
+   - Provide a summary of what was accomplished
+
+### MCP Tools Available
+- \`kanban.startRun\` - Start working on the task (changes status to IN_PROGRESS)
+- \`kanban.updateStatus\` - Update task status with progress notes
+- \`kanban.setChecklistItem\` - Mark checklist items as done
+- \`kanban.heartbeat\` - Keep the session alive during long stretches without logs
+- \`kanban.stopRun\` - Complete the session and move to review
+- \`kanban.getTask\` - Get current task details if needed
+
+Begin implementation now. Report progress as you work.`;
+}
+
+export function renderPlanBacklogPrompt(backlog: TaskSummary[], context: PromptContext = {}): string {
+  const tasks = backlog.length > 0
+    ? backlog.map(t => {
+      const blockers = t.blockers?.length ? ` (blocked by ${t.blockers.map(b => `\`${b.id}\``).join(', ')})` : '';
+      return `- \`${t.id}\` **${t.title}** | ${t.category} | ${t.priority}${blockers}`;
+    }).join('\n')
+    : '_The backlog is empty._';
+
+  return `## Kanban Backlog Planning Request
+
+**Project:** ${context.projectName || 'Unknown'}${projectIdLine(context)}
+
+### Backlog
+${tasks}
+
+### Instructions
+
+Review the backlog and turn it into a plan that agents can work through in order. Do not start implementing anything.
+
+1. **Read the Tasks**: Use \`kanban.getTask({ id })\` for the full description and checklist of each task.
+
+2. **Find Dependencies**: When one task needs another done first, record it:
+   \`\`\`
+   kanban.updateTask({ id: "<task>", blockedBy: ["<prerequisite>"] })
+   \`\`\`
+
+3. **Refine**: Split work that is too large into new tasks with \`kanban.createTask\`, add acceptance criteria as checklist items with \`kanban.addChecklistItem\`, and correct priorities with \`kanban.updateTask\`.
+
+4. **Report**: Summarize the order you recommend, what you changed, and open questions for the user.
+
+### MCP Tools Available
+- \`kanban.listTasks\` - List tasks with filters
+- \`kanban.getTask\` - Get full task details
+- \`kanban.updateTask\` - Change priority, description or dependencies
+- \`kanban.createTask\` - Add a task
+- \`kanban.addChecklistItem\` - Add acceptance criteria`;
+}
+
+export function renderReviewTaskPrompt(task: Task, context: PromptContext = {}): string {
+  const session = [...task.runSessions].reverse().find(s => s.status !== 'pending' && s.status !== 'expired');
+  const checklist = task.checklist || [];
+  const checklistInfo = checklist.length > 0
+    ? `### Checklist\n${checklist.map(i => `- [${i.done ? 'x' : ' '}] ${i.text}`).join('\n')}\n`
+    : '';
+  const logs = session?.logs.length
+    ? `### Log of session \`${session.sessionId}\`\n${session.logs.map(l => `- [${l.type}] ${l.message}`).join('\n')}\n`
+    : '';
+  const changes = session?.changes?.files.length
+    ? `### Changed Files\n${session.changes.files.map(f => `- ${f.path} (+${f.insertions} -${f.deletions})`).join('\n')}\n`
+    : '';
+
+  return `## Kanban Task Review Request
+
+**Task ID:** \`${task.id}\`
+**Project:** ${context.projectName || 'Unknown'}${projectIdLine(context)}
+**Title:** ${task.title}
+**Status:** ${task.status}
+**Category:** ${task.category} | **Priority:** ${task.priority}
+
+${task.description ? `### Description\n${task.description}\n` : ''}${checklistInfo}${logs}${changes}
+### Instructions
+
+Review the work done on this task. Do not change the code yourself.
+
+1. **Check the Requirements**: Compare the changes against the description and every checklist item.
+
+2. **Verify**: Build the project and run its tests where possible.
+
+3. **Report**: List what is done, what is missing and any problems, with file and line references.
+
+4. **Send It Back if Needed**: If the work is incomplete, return the task for another run with your findings as the reason:
+   \`\`\`
+   kanban.updateStatus({ id: "${task.id}", status: "IN_PROGRESS", by: "agent", reason: "<what needs fixing>" })
+   \`\`\`
+   Only a user can approve the task into FINISHED.`;
+}
@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_BOARD_CONFIG, getBoardConfigPath, loadBoardConfig } from './boardConfig';
+
+describe('loadBoardConfig', () => {
+  let workspaceRoot: string;
+
+  const writeConfig = (content: string) => {
+    fs.mkdirSync(path.dirname(getBoardConfigPath(workspaceRoot)), { recursive: true });
+    fs.writeFileSync(getBoardConfigPath(workspaceRoot), content);
+  };
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('falls back to the defaults without a config file', () => {
+    expect(loadBoardConfig(workspaceRoot)).toEqual(DEFAULT_BOARD_CONFIG);
+  });
+
+  it('normalizes shorthand ids and keeps default labels and colors', () => {
+    writeConfig(JSON.stringify({
+      categories: ['CORE', { id: 'INFRA', label: 'Infrastructure', color: '#123456' }, 'DOCS']
+    }));
+
+    const config = loadBoardConfig(workspaceRoot);
+
+    expect(config.categories[0]).toEqual(DEFAULT_BOARD_CONFIG.categories[0]);
+    expect(config.categories[1]).toEqual({ id: 'INFRA', label: 'Infrastructure', color: '#123456' });
+    expect(config.categories[2]).toMatchObject({ id: 'DOCS', label: 'DOCS' });
+    expect(config.categories[2].color).toMatch(/^#/);
+    expect(config.priorities).toEqual(DEFAULT_BOARD_CONFIG.priorities);
+  });
+
+  it('accepts extra columns in the configured order', () => {
+    writeConfig(JSON.stringify({
+      columns: ['BACKLOG', 'IN_PROGRESS', { id: 'QA', label: 'QA' }, 'WAITING_APPROVAL', 'FINISHED']
+    }));
+
+    expect(loadBoardConfig(workspaceRoot).columns.map(c => c.id)).toEqual([
+      'BACKLOG', 'IN_PROGRESS', 'QA', 'WAITING_APPROVAL', 'FINISHED'
+    ]);
+  });
+
+  it('rejects boards missing a workflow column', () => {
+    writeConfig(JSON.stringify({ columns: ['BACKLOG', 'IN_PROGRESS', 'FINISHED'] }));
+
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('columns must include WAITING_APPROVAL');
+  });
+
+  it('loads transition rules that reference configured columns', () => {
+    writeConfig(JSON.stringify({
+      columns: ['BACKLOG', 'IN_PROGRESS', 'QA', 'WAITING_APPROVAL', 'FINISHED'],
+      transitions: [{ from: ['IN_PROGRESS'], to: ['QA'], actors: ['agent'] }]
+    }));
+    expect(loadBoardConfig(workspaceRoot).transitions).toEqual([
+      { from: ['IN_PROGRESS'], to: ['QA'], actors: ['agent'] }
+    ]);
+
+    writeConfig(JSON.stringify({ transitions: [{ from: '*', to: ['QA'], actors: ['agent'] }] }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('"transitions[0].to" must be "*" or a list of column ids');
+
+    writeConfig(JSON.stringify({ transitions: [{ from: '*', to: '*', actors: ['robot'] }] }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('"transitions[0].actors"');
+  });
+
+  it('rejects malformed config', () => {
+    writeConfig('{ nope');
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('Invalid board config');
+
+    writeConfig(JSON.stringify({ categories: [] }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('"categories" must be a non-empty array');
+
+    writeConfig(JSON.stringify({ priorities: ['HIGH', 'HIGH'] }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('duplicate "priorities" id HIGH');
+  });
+
+  it('validates the abandoned run settings', () => {
+    writeConfig(JSON.stringify({ runTimeoutMinutes: 10, abandonedRunAction: 'backlog' }));
+    expect(loadBoardConfig(workspaceRoot)).toMatchObject({ runTimeoutMinutes: 10, abandonedRunAction: 'backlog' });
+
+    writeConfig(JSON.stringify({ runTimeoutMinutes: 0 }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('"runTimeoutMinutes" must be a positive number');
+
+    writeConfig(JSON.stringify({ abandonedRunAction: 'delete' }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('"abandonedRunAction" must be one of backlog, flag');
+  });
+
+  it('validates the archive retention', () => {
+    writeConfig(JSON.stringify({ archiveAfterDays: null }));
+    expect(loadBoardConfig(workspaceRoot).archiveAfterDays).toBeNull();
+
+    writeConfig(JSON.stringify({ archiveAfterDays: -1 }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('"archiveAfterDays" must be a positive number or null');
+  });
+
+  it('loads and validates the branch template', () => {
+    writeConfig(JSON.stringify({ branchTemplate: 'feat/{shortId}-{slug}' }));
+    expect(loadBoardConfig(workspaceRoot).branchTemplate).toBe('feat/{shortId}-{slug}');
+
+    writeConfig(JSON.stringify({ branchTemplate: '{owner}/{slug}' }));
+    expect(() => loadBoardConfig(workspaceRoot)).toThrow('Invalid board config: Unknown branch template placeholder: {owner}');
+  });
+});
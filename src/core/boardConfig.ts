@@ -0,0 +1,199 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AbandonedRunAction, Actor, BoardConfig, BoardOption, CORE_STATUSES, Status, StorageBackend, TransitionRule } from './types';
+import { DEFAULT_TRANSITIONS } from './workflow';
+import { assertValidBranchTemplate, DEFAULT_BRANCH_TEMPLATE } from './branchNaming';
+
+const KANBAN_DIR = '.cursor-kanban';
+const CONFIG_FILE = 'config.json';
+
+// Colors handed out to configured options that don't specify one
+const FALLBACK_COLORS = ['#8b5cf6', '#ec4899', '#06b6d4', '#f97316', '#84cc16', '#14b8a6', '#6366f1', '#eab308'];
+
+export const DEFAULT_BOARD_CONFIG: BoardConfig = {
+  categories: [
+    { id: 'CORE', label: 'Core', color: '#8b5cf6' },
+    { id: 'UI', label: 'UI', color: '#ec4899' },
+    { id: 'API', label: 'API', color: '#06b6d4' }
+  ],
+  // Ordered from most to least urgent
+  priorities: [
+    { id: 'HIGH', label: 'High', color: '#ef4444' },
+    { id: 'MEDIUM', label: 'Medium', color: '#f59e0b' },
+    { id: 'LOW', label: 'Low', color: '#22c55e' }
+  ],
+  columns: [
+    { id: 'BACKLOG', label: 'Backlog', color: '#6b7280' },
+    { id: 'IN_PROGRESS', label: 'In Progress', color: '#3b82f6' },
+    { id: 'WAITING_APPROVAL', label: 'Waiting Approval', color: '#f59e0b' },
+    { id: 'FINISHED', label: 'Finished', color: '#10b981' }
+  ],
+  transitions: DEFAULT_TRANSITIONS,
+  branchTemplate: DEFAULT_BRANCH_TEMPLATE,
+  runTimeoutMinutes: 30,
+  abandonedRunAction: 'flag',
+  storage: 'json',
+  archiveAfterDays: 30
+};
+
+const ACTORS: Actor[] = ['user', 'agent', 'system'];
+const ABANDONED_RUN_ACTIONS: AbandonedRunAction[] = ['backlog', 'flag'];
+const STORAGE_BACKENDS: StorageBackend[] = ['json', 'sqlite'];
+
+export function getBoardConfigPath(workspaceRoot: string): string {
+  return path.join(workspaceRoot, KANBAN_DIR, CONFIG_FILE);
+}
+
+// Accepts either "ID" shorthand or { id, label?, color? } entries
+function normalizeOptions(key: 'categories' | 'priorities' | 'columns', value: unknown): BoardOption[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error(`Invalid board config: "${key}" must be a non-empty array`);
+  }
+
+  const defaults = DEFAULT_BOARD_CONFIG[key];
+  const options = value.map((entry, index): BoardOption => {
+    const raw = typeof entry === 'string' ? { id: entry } : entry;
+    if (!raw || typeof raw.id !== 'string' || !raw.id.trim()) {
+      throw new Error(`Invalid board config: "${key}[${index}]" needs a string id`);
+    }
+    const id = raw.id.trim();
+    const fallback = defaults.find(d => d.id === id);
+    return {
+      id,
+      label: typeof raw.label === 'string' ? raw.label : fallback?.label ?? id,
+      color: typeof raw.color === 'string' ? raw.color : fallback?.color ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length]
+    };
+  });
+
+  const ids = options.map(o => o.id);
+  const duplicate = ids.find((id, i) => ids.indexOf(id) !== i);
+  if (duplicate) {
+    throw new Error(`Invalid board config: duplicate "${key}" id ${duplicate}`);
+  }
+
+  return options;
+}
+
+function normalizeBranchTemplate(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error('Invalid board config: "branchTemplate" must be a non-empty string');
+  }
+  try {
+    assertValidBranchTemplate(value.trim());
+  } catch (error) {
+    throw new Error(`Invalid board config: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return value.trim();
+}
+
+function normalizeRunTimeout(value: unknown): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error('Invalid board config: "runTimeoutMinutes" must be a positive number');
+  }
+  return value;
+}
+
+function normalizeAbandonedRunAction(value: unknown): AbandonedRunAction {
+  if (!ABANDONED_RUN_ACTIONS.includes(value as AbandonedRunAction)) {
+    throw new Error(`Invalid board config: "abandonedRunAction" must be one of ${ABANDONED_RUN_ACTIONS.join(', ')}`);
+  }
+  return value as AbandonedRunAction;
+}
+
+function normalizeStorage(value: unknown): StorageBackend {
+  if (!STORAGE_BACKENDS.includes(value as StorageBackend)) {
+    throw new Error(`Invalid board config: "storage" must be one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return value as StorageBackend;
+}
+
+function normalizeArchiveAfterDays(value: unknown): number | null {
+  if (value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+    throw new Error('Invalid board config: "archiveAfterDays" must be a positive number or null');
+  }
+  return value;
+}
+
+function normalizeTransitions(value: unknown, columns: BoardOption[]): TransitionRule[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Invalid board config: "transitions" must be an array');
+  }
+
+  const statuses = (raw: unknown, field: string, index: number): Status[] | '*' => {
+    if (raw === '*') return '*';
+    if (!Array.isArray(raw) || raw.some(s => !columns.some(c => c.id === s))) {
+      throw new Error(`Invalid board config: "transitions[${index}].${field}" must be "*" or a list of column ids`);
+    }
+    return raw;
+  };
+
+  return value.map((rule, index): TransitionRule => {
+    if (!Array.isArray(rule?.actors) || rule.actors.some((a: unknown) => !ACTORS.includes(a as Actor))) {
+      throw new Error(`Invalid board config: "transitions[${index}].actors" must list ${ACTORS.join(', ')}`);
+    }
+    return {
+      from: statuses(rule.from, 'from', index),
+      to: statuses(rule.to, 'to', index),
+      actors: rule.actors
+    };
+  });
+}
+
+// Load the project's board schema, falling back to the built-in defaults
+export function loadBoardConfig(workspaceRoot: string): BoardConfig {
+  const configPath = getBoardConfigPath(workspaceRoot);
+  if (!fs.existsSync(configPath)) {
+    return DEFAULT_BOARD_CONFIG;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid board config: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('Invalid board config: expected a JSON object');
+  }
+  const raw = parsed as Record<string, unknown>;
+
+  const config: Pick<BoardConfig, 'categories' | 'priorities' | 'columns'> = {
+    categories: raw.categories !== undefined
+      ? normalizeOptions('categories', raw.categories)
+      : DEFAULT_BOARD_CONFIG.categories,
+    priorities: raw.priorities !== undefined
+      ? normalizeOptions('priorities', raw.priorities)
+      : DEFAULT_BOARD_CONFIG.priorities,
+    columns: raw.columns !== undefined
+      ? normalizeOptions('columns', raw.columns)
+      : DEFAULT_BOARD_CONFIG.columns
+  };
+
+  // The run workflow moves tasks through these, so every board needs them
+  const missing = CORE_STATUSES.filter(status => !config.columns.some(c => c.id === status));
+  if (missing.length > 0) {
+    throw new Error(`Invalid board config: columns must include ${missing.join(', ')}`);
+  }
+
+  return {
+    ...config,
+    transitions: raw.transitions !== undefined
+      ? normalizeTransitions(raw.transitions, config.columns)
+      : DEFAULT_TRANSITIONS,
+    branchTemplate: raw.branchTemplate !== undefined
+      ? normalizeBranchTemplate(raw.branchTemplate)
+      : DEFAULT_BRANCH_TEMPLATE,
+    runTimeoutMinutes: raw.runTimeoutMinutes !== undefined
+      ? normalizeRunTimeout(raw.runTimeoutMinutes)
+      : DEFAULT_BOARD_CONFIG.runTimeoutMinutes,
+    abandonedRunAction: raw.abandonedRunAction !== undefined
+      ? normalizeAbandonedRunAction(raw.abandonedRunAction)
+      : DEFAULT_BOARD_CONFIG.abandonedRunAction,
+    storage: raw.storage !== undefined
+      ? normalizeStorage(raw.storage)
+      : DEFAULT_BOARD_CONFIG.storage,
+    archiveAfterDays: raw.archiveAfterDays !== undefined
+      ? normalizeArchiveAfterDays(raw.archiveAfterDays)
+      : DEFAULT_BOARD_CONFIG.archiveAfterDays
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { assertValidBranchTemplate, DEFAULT_BRANCH_TEMPLATE, renderBranchName, slugify, uniqueBranchName } from './branchNaming';
+import { validateBranchName } from './gitHelper';
+
+const task = {
+  id: '1a2b3c4d-0000-4000-8000-000000000000',
+  title: 'Add dark mode',
+  category: 'UI',
+  priority: 'HIGH'
+};
+
+describe('slugify', () => {
+  it.each([
+    ['Add dark mode', 'add-dark-mode'],
+    ['Fix "quoted" title\'s bug', 'fix-quoted-title-s-bug'],
+    ['Paths / with \\ slashes', 'paths-with-slashes'],
+    ['Ünïcode Çafé résumé', 'unicode-cafe-resume'],
+    ['  --Leading and trailing--  ', 'leading-and-trailing'],
+    ['日本語のタイトル', ''],
+    ['refs..lock @{1} ~^:?*[', 'refs-lock-1']
+  ])('%j -> %j', (input, expected) => {
+    expect(slugify(input)).toBe(expected);
+  });
+
+  it('truncates long titles at a word boundary', () => {
+    const slug = slugify('Implement the extremely long feature title that never seems to end at all');
+
+    expect(slug.length).toBeLessThanOrEqual(40);
+    expect(slug).toBe('implement-the-extremely-long-feature');
+  });
+});
+
+describe('renderBranchName', () => {
+  it('fills the default template', () => {
+    expect(renderBranchName(DEFAULT_BRANCH_TEMPLATE, task)).toBe('ui/1a2b3c4d-add-dark-mode');
+  });
+
+  it('supports custom templates', () => {
+    expect(renderBranchName('feat/{priority}/{slug}', task)).toBe('feat/high/add-dark-mode');
+  });
+
+  it('falls back to "task" when the title has no usable characters', () => {
+    expect(renderBranchName('{category}/{slug}', { ...task, title: '日本語のタイトル' })).toBe('ui/task');
+  });
+
+  it.each([
+    'Fix "quotes"',
+    'a/b\\c',
+    '.hidden.lock',
+    '   ',
+    'Émoji 🚀 launch',
+    'x'.repeat(200)
+  ])('always produces a valid ref for %j', (title) => {
+    const name = renderBranchName(DEFAULT_BRANCH_TEMPLATE, { ...task, title });
+
+    expect(validateBranchName(name)).toBeNull();
+    expect(name.length).toBeLessThanOrEqual(80);
+  });
+});
+
+describe('uniqueBranchName', () => {
+  it('keeps free names and suffixes taken ones', () => {
+    expect(uniqueBranchName('feat/x', new Set())).toBe('feat/x');
+    expect(uniqueBranchName('feat/x', new Set(['feat/x', 'feat/x-2']))).toBe('feat/x-3');
+  });
+});
+
+describe('assertValidBranchTemplate', () => {
+  it('accepts known placeholders', () => {
+    expect(() => assertValidBranchTemplate('{category}/{priority}-{shortId}-{slug}')).not.toThrow();
+  });
+
+  it('rejects unknown placeholders', () => {
+    expect(() => assertValidBranchTemplate('{team}/{slug}')).toThrow('Unknown branch template placeholder: {team}');
+  });
+
+  it('rejects templates that produce invalid refs', () => {
+    expect(() => assertValidBranchTemplate('feat:{slug}')).toThrow('Branch template produces invalid names');
+  });
+});
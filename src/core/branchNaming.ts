@@ -0,0 +1,82 @@
+import { validateBranchName } from './gitHelper';
+
+export const DEFAULT_BRANCH_TEMPLATE = '{category}/{shortId}-{slug}';
+
+const MAX_SLUG_LENGTH = 40;
+const MAX_BRANCH_LENGTH = 80;
+const PLACEHOLDERS = ['category', 'priority', 'shortId', 'slug'] as const;
+
+type BranchNameFields = { id: string; title: string; category: string; priority: string };
+
+// Lowercase ASCII words joined by dashes, e.g. `Fix "Ünïcode" / paths` -> `fix-unicode-paths`
+export function slugify(text: string, maxLength = MAX_SLUG_LENGTH): string {
+  const slug = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  if (slug.length <= maxLength) {
+    return slug;
+  }
+
+  // Cut at a word boundary when one is close enough
+  const cut = slug.slice(0, maxLength);
+  const lastDash = cut.lastIndexOf('-');
+  return (lastDash > maxLength / 2 ? cut.slice(0, lastDash) : cut).replace(/-+$/, '');
+}
+
+// Throws if the template references unknown placeholders or can't produce a valid ref
+export function assertValidBranchTemplate(template: string): void {
+  const unknown = [...template.matchAll(/\{(\w+)\}/g)]
+    .map(match => match[1])
+    .filter(name => !(PLACEHOLDERS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown branch template placeholder: {${unknown[0]}} (expected ${PLACEHOLDERS.map(p => `{${p}}`).join(', ')})`);
+  }
+
+  const sample = renderBranchName(template, {
+    id: '00000000-0000-0000-0000-000000000000',
+    title: 'Sample task',
+    category: 'CORE',
+    priority: 'HIGH'
+  });
+  const problem = validateBranchName(sample);
+  if (problem) {
+    throw new Error(`Branch template produces invalid names: ${problem}`);
+  }
+}
+
+export function renderBranchName(template: string, task: BranchNameFields): string {
+  const values: Record<typeof PLACEHOLDERS[number], string> = {
+    category: slugify(task.category),
+    priority: slugify(task.priority),
+    shortId: task.id.split('-')[0],
+    slug: slugify(task.title) || 'task'
+  };
+
+  const name = template
+    .replace(/\{(\w+)\}/g, (match, key: string) => values[key as keyof typeof values] ?? match)
+    .replace(/\/{2,}/g, '/')
+    .replace(/-{2,}/g, '-')
+    .replace(/(^|\/)[-.]+/g, '$1')
+    .replace(/[-./]+$/, '');
+
+  return name.length <= MAX_BRANCH_LENGTH
+    ? name
+    : name.slice(0, MAX_BRANCH_LENGTH).replace(/[-./]+$/, '');
+}
+
+// First of name, name-2, name-3, ... that isn't taken
+export function uniqueBranchName(name: string, taken: Set<string>): string {
+  if (!taken.has(name)) {
+    return name;
+  }
+  for (let n = 2; ; n++) {
+    const candidate = `${name}-${n}`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,433 @@
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { GitHelper, validateBranchName } from './gitHelper';
+import { TaskStore } from './TaskStore';
+
+const run = (cwd: string, ...args: string[]) =>
+  execFileSync('git', args, { cwd, encoding: 'utf-8' }).trim();
+
+// A temp repository with one commit on main
+function initRepo(): string {
+  const repoRoot = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-git-')));
+  run(repoRoot, 'init', '-q', '-b', 'main');
+  run(repoRoot, 'config', 'user.name', 'Test');
+  run(repoRoot, 'config', 'user.email', 'test@example.com');
+  fs.writeFileSync(path.join(repoRoot, 'README.md'), 'hello\n');
+  run(repoRoot, 'add', '.');
+  run(repoRoot, 'commit', '-q', '-m', 'initial');
+  return repoRoot;
+}
+
+function commitFile(cwd: string, file: string, content: string, message: string): void {
+  fs.writeFileSync(path.join(cwd, file), content);
+  run(cwd, 'add', file);
+  run(cwd, 'commit', '-q', '-m', message);
+}
+
+describe('GitHelper worktrees', () => {
+  let repoRoot: string;
+  let git: GitHelper;
+
+  beforeEach(() => {
+    repoRoot = initRepo();
+    git = new GitHelper(repoRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('creates a worktree on a new branch without touching the main checkout', async () => {
+    const worktreePath = path.join(repoRoot, '.cursor-kanban', 'worktrees', 'task-1');
+
+    await git.addWorktree(worktreePath, 'feat/one');
+
+    expect(fs.existsSync(path.join(worktreePath, 'README.md'))).toBe(true);
+    expect(await git.getCurrentBranch()).toBe('main');
+    expect(await git.listWorktrees()).toEqual([
+      expect.objectContaining({ path: repoRoot, branch: 'main' }),
+      expect.objectContaining({ path: worktreePath, branch: 'feat/one' })
+    ]);
+  });
+
+  it('checks out an existing branch into the worktree', async () => {
+    run(repoRoot, 'branch', 'feat/existing');
+    const worktreePath = path.join(repoRoot, 'wt');
+
+    await git.addWorktree(worktreePath, 'feat/existing');
+
+    expect(run(worktreePath, 'rev-parse', '--abbrev-ref', 'HEAD')).toBe('feat/existing');
+  });
+
+  it('merges the worktree branch and removes the worktree', async () => {
+    const worktreePath = path.join(repoRoot, 'wt');
+    await git.addWorktree(worktreePath, 'feat/work');
+    commitFile(worktreePath, 'feature.txt', 'done\n', 'feature');
+
+    await git.mergeBranch('feat/work');
+    await git.removeWorktree(worktreePath);
+    await git.deleteBranch('feat/work');
+
+    expect(fs.existsSync(path.join(repoRoot, 'feature.txt'))).toBe(true);
+    expect(fs.existsSync(worktreePath)).toBe(false);
+    expect(await git.listWorktrees()).toHaveLength(1);
+    expect(await git.branchExists('feat/work')).toBe(false);
+  });
+
+  it('refuses to remove a dirty worktree unless forced', async () => {
+    const worktreePath = path.join(repoRoot, 'wt');
+    await git.addWorktree(worktreePath, 'feat/dirty');
+    fs.writeFileSync(path.join(worktreePath, 'scratch.txt'), 'wip\n');
+
+    await expect(git.removeWorktree(worktreePath)).rejects.toThrow('Git command failed');
+    await git.removeWorktree(worktreePath, true);
+
+    expect(fs.existsSync(worktreePath)).toBe(false);
+  });
+});
+
+describe('GitHelper change stats', () => {
+  let repoRoot: string;
+  let git: GitHelper;
+
+  beforeEach(() => {
+    repoRoot = initRepo();
+    git = new GitHelper(repoRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('summarizes commits and per-file stats between two commits', async () => {
+    const from = (await git.getHeadCommit())!;
+    commitFile(repoRoot, 'README.md', 'hello\nworld\n', 'Extend readme');
+    commitFile(repoRoot, 'src.ts', 'a\nb\nc\n', 'Add source');
+    const to = (await git.getHeadCommit())!;
+
+    const changes = await git.getChanges(from, to);
+
+    expect(changes).toMatchObject({ fromCommit: from, toCommit: to, insertions: 4, deletions: 0 });
+    expect(changes.commits.map(c => c.subject)).toEqual(['Add source', 'Extend readme']);
+    expect(changes.files).toEqual([
+      { path: 'README.md', insertions: 1, deletions: 0 },
+      { path: 'src.ts', insertions: 3, deletions: 0 }
+    ]);
+    expect(await git.showFile(from, 'README.md')).toBe('hello\n');
+    expect(await git.showFile(from, 'src.ts')).toBe('');
+  });
+
+  it('returns no head commit outside a repository', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    try {
+      expect(await new GitHelper(dir).getHeadCommit()).toBeNull();
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('records the commit range of a run session on stop', async () => {
+    const store = new TaskStore(repoRoot);
+    const task = await store.createTask({
+      title: 'Change things',
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'current' }
+    });
+    const session = await store.startRun(task.id);
+    commitFile(repoRoot, 'feature.txt', 'one\ntwo\n', 'Add feature');
+
+    await store.stopRun(task.id, session.sessionId);
+
+    const stopped = (await store.getTask(task.id))!.runSessions[0];
+    expect(stopped.startCommit).toBe(session.startCommit);
+    expect(stopped.changes).toMatchObject({
+      fromCommit: session.startCommit,
+      commits: [expect.objectContaining({ subject: 'Add feature' })],
+      files: [{ path: 'feature.txt', insertions: 2, deletions: 0 }],
+      insertions: 2,
+      deletions: 0
+    });
+  });
+});
+
+describe('GitHelper branch names', () => {
+  let repoRoot: string;
+  let git: GitHelper;
+
+  beforeEach(() => {
+    repoRoot = initRepo();
+    git = new GitHelper(repoRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  const gitAccepts = (name: string) => {
+    try {
+      run(repoRoot, 'check-ref-format', '--branch', name);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  it.each([
+    'feat/login',
+    'fix/ünïcode-títle',
+    'feat/a;touch-pwned',
+    'feat/$(touch pwned)',
+    'release-1.2',
+    '',
+    'has space',
+    '-b',
+    '--upload-pack=touch pwned',
+    'a..b',
+    'a@{1}',
+    'foo.lock',
+    'feat/.hidden',
+    'trailing.',
+    '/leading',
+    'double//slash',
+    'tilde~1',
+    'caret^',
+    'colon:name',
+    'glob*',
+    'question?',
+    'bracket[',
+    'back\\slash',
+    'new\nline'
+  ])('agrees with git check-ref-format for %j', (name) => {
+    expect(validateBranchName(name) === null).toBe(gitAccepts(name));
+  });
+
+  it.each([
+    'x; touch pwned',
+    '`touch pwned`',
+    '--orphan=pwned',
+    '-f',
+    'a\ntouch pwned'
+  ])('rejects hostile name %j before running git', async (name) => {
+    await expect(git.createAndCheckoutBranch(name)).rejects.toThrow('Invalid branch name');
+    await expect(git.addWorktree(path.join(repoRoot, 'wt'), name)).rejects.toThrow('Invalid branch name');
+
+    expect(fs.existsSync(path.join(repoRoot, 'pwned'))).toBe(false);
+    expect(await git.listBranches()).toEqual(['main']);
+    expect(await git.getCurrentBranch()).toBe('main');
+  });
+
+  it('suffixes template branch names that already exist locally', async () => {
+    const store = new TaskStore(repoRoot);
+    const fields = { id: '1a2b3c4d-0000', title: 'Add login', category: 'API', priority: 'HIGH' };
+    run(repoRoot, 'branch', 'api/1a2b3c4d-add-login');
+
+    expect(await store.suggestBranchName(fields)).toBe('api/1a2b3c4d-add-login-2');
+  });
+
+  it('passes shell metacharacters that git allows through literally', async () => {
+    const name = 'feat/$(touch${IFS}pwned);echo&&true';
+
+    await git.createAndCheckoutBranch(name);
+
+    expect(fs.existsSync(path.join(repoRoot, 'pwned'))).toBe(false);
+    expect(await git.getCurrentBranch()).toBe(name);
+    expect(await git.branchExists(name)).toBe(true);
+  });
+});
+
+describe('dirty tree handling', () => {
+  let repoRoot: string;
+  let git: GitHelper;
+  const KANBAN_PATHS = ['.cursor-kanban'];
+
+  beforeEach(() => {
+    repoRoot = initRepo();
+    git = new GitHelper(repoRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(repoRoot, { recursive: true, force: true });
+  });
+
+  it('ignores changes under excluded paths', async () => {
+    new TaskStore(repoRoot);
+    fs.writeFileSync(path.join(repoRoot, '.cursor-kanban', 'tasks.json'), '[]');
+
+    expect(await git.hasUncommittedChanges()).toBe(true);
+    expect(await git.hasUncommittedChanges(KANBAN_PATHS)).toBe(false);
+
+    fs.writeFileSync(path.join(repoRoot, 'README.md'), 'edited\n');
+    expect(await git.hasUncommittedChanges(KANBAN_PATHS)).toBe(true);
+  });
+
+  it('stashes work and restores that exact stash later', async () => {
+    new TaskStore(repoRoot);
+    fs.writeFileSync(path.join(repoRoot, '.cursor-kanban', 'tasks.json'), '[]');
+    fs.writeFileSync(path.join(repoRoot, 'README.md'), 'mine\n');
+    fs.writeFileSync(path.join(repoRoot, 'notes.txt'), 'untracked\n');
+
+    const ref = await git.stashChanges('before run', KANBAN_PATHS);
+
+    expect(fs.readFileSync(path.join(repoRoot, 'README.md'), 'utf-8')).toBe('hello\n');
+    expect(fs.existsSync(path.join(repoRoot, 'notes.txt'))).toBe(false);
+    expect(fs.existsSync(path.join(repoRoot, '.cursor-kanban', 'tasks.json'))).toBe(true);
+
+    fs.writeFileSync(path.join(repoRoot, 'other.txt'), 'later\n');
+    await git.stashChanges('someone else');
+
+    await git.restoreStash(ref);
+
+    expect(fs.readFileSync(path.join(repoRoot, 'README.md'), 'utf-8')).toBe('mine\n');
+    expect(fs.existsSync(path.join(repoRoot, 'notes.txt'))).toBe(true);
+    expect(run(repoRoot, 'stash', 'list')).toContain('someone else');
+    await expect(git.restoreStash(ref)).rejects.toThrow('not found');
+  });
+
+  it('commits work in progress without the board data', async () => {
+    new TaskStore(repoRoot);
+    fs.writeFileSync(path.join(repoRoot, '.cursor-kanban', 'tasks.json'), '[]');
+    fs.writeFileSync(path.join(repoRoot, 'README.md'), 'wip\n');
+
+    const commit = await git.commitAll('WIP', KANBAN_PATHS);
+
+    expect(commit).toBe(await git.getHeadCommit());
+    expect(run(repoRoot, 'show', '--name-only', '--format=%s', 'HEAD')).toBe('WIP\n\nREADME.md');
+    expect(await git.hasUncommittedChanges(KANBAN_PATHS)).toBe(false);
+  });
+
+  it('records the choice and restores the stash when the run stops', async () => {
+    const store = new TaskStore(repoRoot);
+    const task = await store.createTask({
+      title: 'Switch branches',
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'new', name: 'feat/switch' }
+    });
+    fs.writeFileSync(path.join(repoRoot, 'README.md'), 'mine\n');
+    const ref = await git.stashChanges('before run', KANBAN_PATHS);
+
+    await store.recordDirtyTreeChoice(task.id, 'stash', {
+      stash: { ref, branch: 'main', createdAt: new Date().toISOString() }
+    });
+    expect((await store.getTask(task.id))?.stash?.ref).toBe(ref);
+
+    const session = await store.startRun(task.id);
+    await store.stopRun(task.id, session.sessionId);
+
+    const stopped = (await store.getTask(task.id))!;
+    expect(stopped.stash).toBeUndefined();
+    expect(fs.readFileSync(path.join(repoRoot, 'README.md'), 'utf-8')).toBe('mine\n');
+    expect(stopped.history.map(h => h.reason).filter(Boolean)).toEqual([
+      `Uncommitted changes on main stashed (${ref.slice(0, 7)}) before the run`,
+      `Restored changes stashed from main (${ref.slice(0, 7)})`
+    ]);
+  });
+
+  it('checks the stashed branch out again and restores the stash after a run on a new branch', async () => {
+    const store = new TaskStore(repoRoot);
+    const task = await store.createTask({
+      title: 'Run on a new branch',
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'new', name: 'feat/run' }
+    });
+    fs.writeFileSync(path.join(repoRoot, 'notes.txt'), 'unrelated work\n');
+    const ref = await git.stashChanges('before run', KANBAN_PATHS);
+    await store.recordDirtyTreeChoice(task.id, 'stash', {
+      stash: { ref, branch: 'main', createdAt: new Date().toISOString() }
+    });
+    await git.createAndCheckoutBranch('feat/run');
+
+    const session = await store.startRun(task.id);
+    fs.writeFileSync(path.join(repoRoot, 'feature.txt'), 'agent work\n');
+    await git.commitAll('Agent work', KANBAN_PATHS);
+    await store.stopRun(task.id, session.sessionId);
+
+    const stopped = (await store.getTask(task.id))!;
+    expect(await git.getCurrentBranch()).toBe('main');
+    expect(fs.readFileSync(path.join(repoRoot, 'notes.txt'), 'utf-8')).toBe('unrelated work\n');
+    expect(fs.existsSync(path.join(repoRoot, 'feature.txt'))).toBe(false);
+    expect(run(repoRoot, 'stash', 'list')).toBe('');
+    expect(stopped.stash).toBeUndefined();
+    expect(stopped.history.at(-1)).toMatchObject({
+      by: 'system',
+      reason: `Checked out main again and restored the changes stashed there (${ref.slice(0, 7)})`
+    });
+  });
+
+  it('keeps the stash when the run left uncommitted changes on its branch', async () => {
+    const store = new TaskStore(repoRoot);
+    const task = await store.createTask({
+      title: 'Run on a new branch',
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'new', name: 'feat/run' }
+    });
+    fs.writeFileSync(path.join(repoRoot, 'notes.txt'), 'unrelated work\n');
+    const ref = await git.stashChanges('before run', KANBAN_PATHS);
+    await store.recordDirtyTreeChoice(task.id, 'stash', {
+      stash: { ref, branch: 'main', createdAt: new Date().toISOString() }
+    });
+    await git.createAndCheckoutBranch('feat/run');
+
+    const session = await store.startRun(task.id);
+    fs.writeFileSync(path.join(repoRoot, 'feature.txt'), 'unfinished agent work\n');
+    await store.stopRun(task.id, session.sessionId);
+
+    const stopped = (await store.getTask(task.id))!;
+    expect(await git.getCurrentBranch()).toBe('feat/run');
+    expect(run(repoRoot, 'stash', 'list', '--format=%H').trim()).toBe(ref);
+    expect(stopped.stash?.ref).toBe(ref);
+    expect(stopped.history.at(-1)).toMatchObject({
+      by: 'system',
+      reason: expect.stringContaining('because feat/run has uncommitted changes; commit them, check out main')
+    });
+  });
+
+  it('keeps the stash and explains why when it cannot be restored', async () => {
+    const store = new TaskStore(repoRoot);
+    const task = await store.createTask({
+      title: 'Lose the stash',
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'current' }
+    });
+    fs.writeFileSync(path.join(repoRoot, 'README.md'), 'mine\n');
+    const ref = await git.stashChanges('before run', KANBAN_PATHS);
+    run(repoRoot, 'stash', 'drop');
+
+    await store.recordDirtyTreeChoice(task.id, 'stash', {
+      stash: { ref, branch: 'main', createdAt: new Date().toISOString() }
+    });
+    const session = await store.startRun(task.id);
+    await store.stopRun(task.id, session.sessionId);
+
+    const stopped = (await store.getTask(task.id))!;
+    expect(stopped.status).toBe('WAITING_APPROVAL');
+    expect(stopped.stash?.ref).toBe(ref);
+    expect(stopped.history.at(-1)).toMatchObject({ by: 'system', reason: expect.stringContaining('Could not restore stash') });
+  });
+
+  it('records an aborted run', async () => {
+    const store = new TaskStore(repoRoot);
+    const task = await store.createTask({
+      title: 'Abort it',
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'current' }
+    });
+
+    await store.recordDirtyTreeChoice(task.id, 'abort');
+
+    expect((await store.getTask(task.id))?.history.at(-1)).toMatchObject({
+      from: 'BACKLOG',
+      to: 'BACKLOG',
+      by: 'user',
+      reason: 'Run aborted because of uncommitted changes'
+    });
+  });
+});
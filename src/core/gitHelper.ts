@@ -1,17 +1,89 @@
-import { exec } from 'child_process';
+import { execFile } from 'child_process';
 import { promisify } from 'util';
+import { CommitInfo, FileChange, SessionChanges } from './types';
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+export interface WorktreeEntry {
+  path: string;
+  head: string;
+  branch?: string; // Short branch name, absent when detached
+}
+
+// Mirrors `git check-ref-format --branch`; returns why a name is rejected, or null when valid
+export function validateBranchName(name: string): string | null {
+  if (!name || name.trim().length === 0) {
+    return 'Branch name is required';
+  }
+  if (name.startsWith('-')) {
+    return 'Branch name cannot start with "-"';
+  }
+  if (name === '@') {
+    return 'Branch name cannot be "@"';
+  }
+  if (/[\x00-\x20\x7f]/.test(name)) {
+    return 'Branch name cannot contain spaces or control characters';
+  }
+  if (/[~^:?*[\\]/.test(name)) {
+    return 'Branch name cannot contain ~ ^ : ? * [ or \\';
+  }
+  if (name.includes('..')) {
+    return 'Branch name cannot contain ".."';
+  }
+  if (name.includes('@{')) {
+    return 'Branch name cannot contain "@{"';
+  }
+  if (name.startsWith('/') || name.endsWith('/') || name.includes('//')) {
+    return 'Branch name cannot start or end with "/" or contain "//"';
+  }
+  if (name.endsWith('.')) {
+    return 'Branch name cannot end with "."';
+  }
+  for (const component of name.split('/')) {
+    if (component.startsWith('.')) {
+      return 'Branch name components cannot start with "."';
+    }
+    if (component.endsWith('.lock')) {
+      return 'Branch name components cannot end with ".lock"';
+    }
+  }
+  return null;
+}
+
+export class InvalidBranchNameError extends Error {
+  readonly code = 'INVALID_BRANCH_NAME';
+
+  constructor(readonly branch: string, problem: string) {
+    super(`Invalid branch name '${branch}': ${problem}`);
+    this.name = 'InvalidBranchNameError';
+  }
+}
+
+export function assertValidBranchName(name: string): void {
+  const problem = validateBranchName(name);
+  if (problem) {
+    throw new InvalidBranchNameError(name, problem);
+  }
+}
+
+// Commit ids come back from stored task data, so never let one be read as an option
+function assertCommitHash(ref: string): void {
+  if (!/^[0-9a-f]{4,64}$/i.test(ref)) {
+    throw new Error(`Invalid commit hash '${ref}'`);
+  }
+}
 
 export class GitHelper {
   constructor(private readonly workspaceRoot: string) {}
 
-  private async execGit(command: string): Promise<string> {
+  // Arguments go straight to git without a shell, so nothing in them is interpreted
+  private async execGit(args: string[], trim = true): Promise<string> {
     try {
-      const { stdout } = await execAsync(`git ${command}`, {
-        cwd: this.workspaceRoot
+      const { stdout } = await execFileAsync('git', args, {
+        cwd: this.workspaceRoot,
+        maxBuffer: 32 * 1024 * 1024
       });
-      return stdout.trim();
+      return trim ? stdout.trim() : stdout;
     } catch (error: any) {
       throw new Error(`Git command failed: ${error.message}`);
     }
@@ -19,25 +91,30 @@ export class GitHelper {
 
   async isGitRepo(): Promise<boolean> {
     try {
-      await this.execGit('rev-parse --git-dir');
+      await this.execGit(['rev-parse', '--git-dir']);
       return true;
     } catch {
       return false;
     }
   }
 
+  async getRepoRoot(): Promise<string> {
+    return this.execGit(['rev-parse', '--show-toplevel']);
+  }
+
   async getCurrentBranch(): Promise<string> {
-    return this.execGit('rev-parse --abbrev-ref HEAD');
+    return this.execGit(['rev-parse', '--abbrev-ref', 'HEAD']);
   }
 
   async listBranches(): Promise<string[]> {
-    const output = await this.execGit('branch --list --format="%(refname:short)"');
+    const output = await this.execGit(['branch', '--list', '--format=%(refname:short)']);
     return output.split('\n').filter(Boolean);
   }
 
   async branchExists(branchName: string): Promise<boolean> {
+    assertValidBranchName(branchName);
     try {
-      await this.execGit(`rev-parse --verify ${branchName}`);
+      await this.execGit(['rev-parse', '--verify', '--quiet', `refs/heads/${branchName}`]);
       return true;
     } catch {
       return false;
@@ -45,11 +122,13 @@ export class GitHelper {
   }
 
   async createBranch(branchName: string): Promise<void> {
-    await this.execGit(`branch ${branchName}`);
+    assertValidBranchName(branchName);
+    await this.execGit(['branch', '--', branchName]);
   }
 
   async checkoutBranch(branchName: string): Promise<void> {
-    await this.execGit(`checkout ${branchName}`);
+    assertValidBranchName(branchName);
+    await this.execGit(['checkout', branchName, '--']);
   }
 
   async createAndCheckoutBranch(branchName: string): Promise<void> {
@@ -57,12 +136,140 @@ export class GitHelper {
     if (exists) {
       throw new Error(`Branch '${branchName}' already exists`);
     }
-    await this.execGit(`checkout -b ${branchName}`);
+    await this.execGit(['checkout', '-b', branchName, '--']);
+  }
+
+  async addWorktree(worktreePath: string, branchName: string): Promise<void> {
+    const exists = await this.branchExists(branchName);
+    if (exists) {
+      await this.execGit(['worktree', 'add', '--', worktreePath, branchName]);
+    } else {
+      await this.execGit(['worktree', 'add', '-b', branchName, '--', worktreePath]);
+    }
+  }
+
+  async removeWorktree(worktreePath: string, force = false): Promise<void> {
+    await this.execGit(['worktree', 'remove', ...(force ? ['--force'] : []), '--', worktreePath]);
+  }
+
+  async listWorktrees(): Promise<WorktreeEntry[]> {
+    const output = await this.execGit(['worktree', 'list', '--porcelain']);
+    const entries: WorktreeEntry[] = [];
+
+    for (const block of output.split(/\n\s*\n/)) {
+      const entry: Partial<WorktreeEntry> = {};
+      for (const line of block.split('\n')) {
+        if (line.startsWith('worktree ')) entry.path = line.slice('worktree '.length);
+        if (line.startsWith('HEAD ')) entry.head = line.slice('HEAD '.length);
+        if (line.startsWith('branch ')) entry.branch = line.slice('branch '.length).replace(/^refs\/heads\//, '');
+      }
+      if (entry.path && entry.head) {
+        entries.push(entry as WorktreeEntry);
+      }
+    }
+
+    return entries;
+  }
+
+  async mergeBranch(branchName: string): Promise<void> {
+    assertValidBranchName(branchName);
+    await this.execGit(['merge', '--no-ff', '--no-edit', `refs/heads/${branchName}`]);
+  }
+
+  async deleteBranch(branchName: string): Promise<void> {
+    assertValidBranchName(branchName);
+    await this.execGit(['branch', '-d', '--', branchName]);
+  }
+
+  async getHeadCommit(): Promise<string | null> {
+    try {
+      return await this.execGit(['rev-parse', '--verify', 'HEAD']);
+    } catch {
+      return null; // Not a repo, or no commits yet
+    }
+  }
+
+  async getCommitsBetween(fromCommit: string, toCommit: string): Promise<CommitInfo[]> {
+    assertCommitHash(fromCommit);
+    assertCommitHash(toCommit);
+    const output = await this.execGit(['log', '--format=%H%x09%s', `${fromCommit}..${toCommit}`, '--']);
+    return output.split('\n').filter(Boolean).map(line => {
+      const [hash, ...subject] = line.split('\t');
+      return { hash, subject: subject.join('\t') };
+    });
+  }
+
+  async getDiffStats(fromCommit: string, toCommit: string): Promise<FileChange[]> {
+    assertCommitHash(fromCommit);
+    assertCommitHash(toCommit);
+    const output = await this.execGit(['diff', '--numstat', '--no-renames', fromCommit, toCommit, '--']);
+    return output.split('\n').filter(Boolean).map(line => {
+      const [insertions, deletions, ...filePath] = line.split('\t');
+      // Binary files report "-" for both counts
+      return {
+        path: filePath.join('\t'),
+        insertions: insertions === '-' ? 0 : Number(insertions),
+        deletions: deletions === '-' ? 0 : Number(deletions)
+      };
+    });
+  }
+
+  async getChanges(fromCommit: string, toCommit: string): Promise<SessionChanges> {
+    const [commits, files] = await Promise.all([
+      this.getCommitsBetween(fromCommit, toCommit),
+      this.getDiffStats(fromCommit, toCommit)
+    ]);
+    return {
+      fromCommit,
+      toCommit,
+      commits,
+      files,
+      insertions: files.reduce((sum, f) => sum + f.insertions, 0),
+      deletions: files.reduce((sum, f) => sum + f.deletions, 0)
+    };
+  }
+
+  // File contents at a commit, empty when the file doesn't exist there
+  async showFile(ref: string, filePath: string): Promise<string> {
+    assertCommitHash(ref);
+    try {
+      return await this.execGit(['show', `${ref}:${filePath}`], false);
+    } catch {
+      return '';
+    }
+  }
+
+  // Limits a command to the whole repository minus the given paths
+  private pathspec(excludePaths: string[]): string[] {
+    return excludePaths.length > 0 ? ['--', ':/', ...excludePaths.map(p => `:(exclude)${p}`)] : [];
+  }
+
+  // Stash tracked and untracked changes; returns the stash commit so it can be found again later
+  async stashChanges(message: string, excludePaths: string[] = []): Promise<string> {
+    await this.execGit(['stash', 'push', '--include-untracked', '-m', message, ...this.pathspec(excludePaths)]);
+    return this.execGit(['rev-parse', '--verify', 'refs/stash']);
+  }
+
+  async restoreStash(ref: string): Promise<void> {
+    assertCommitHash(ref);
+    const output = await this.execGit(['stash', 'list', '--format=%H']);
+    const index = output.split('\n').indexOf(ref);
+    if (index === -1) {
+      throw new Error(`Stash ${ref.slice(0, 7)} not found`);
+    }
+    await this.execGit(['stash', 'pop', `stash@{${index}}`]);
+  }
+
+  // Commit everything as-is; returns the new commit hash
+  async commitAll(message: string, excludePaths: string[] = []): Promise<string> {
+    await this.execGit(['add', '-A', ...this.pathspec(excludePaths)]);
+    await this.execGit(['commit', '-m', message]);
+    return this.execGit(['rev-parse', '--verify', 'HEAD']);
   }
 
-  async hasUncommittedChanges(): Promise<boolean> {
+  async hasUncommittedChanges(excludePaths: string[] = []): Promise<boolean> {
     try {
-      const output = await this.execGit('status --porcelain');
+      const output = await this.execGit(['status', '--porcelain', ...this.pathspec(excludePaths)]);
       return output.length > 0;
     } catch {
       return false;
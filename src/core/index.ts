@@ -1,5 +1,18 @@
 // Core module exports
 export * from './types';
-export { TaskStore } from './TaskStore';
-export { GitHelper } from './gitHelper';
+export {
+  TaskStore,
+  RevisionConflictError,
+  TaskNotFoundError,
+  SessionNotFoundError,
+  TaskBlockedError,
+  RunAlreadyActiveError,
+  UnknownOptionError
+} from './TaskStore';
+export { StorageCorruptionError } from './TaskRepository';
+export { GitHelper, validateBranchName, InvalidBranchNameError } from './gitHelper';
+export { DEFAULT_BOARD_CONFIG, loadBoardConfig, getBoardConfigPath } from './boardConfig';
+export { DEFAULT_BRANCH_TEMPLATE, slugify, renderBranchName, uniqueBranchName } from './branchNaming';
+export { DEFAULT_TRANSITIONS, isTransitionAllowed, allowedTransitions, TransitionError } from './workflow';
+export { renderExecuteTaskPrompt, renderPlanBacklogPrompt, renderReviewTaskPrompt } from './agentPrompts';
 
@@ -0,0 +1,53 @@
+import { Task } from './types';
+
+// A task as read from disk, in whatever shape its schema version had
+type StoredTask = Record<string, unknown>;
+
+interface Migration {
+  version: number; // Schema version the task is at after this runs
+  description: string;
+  migrate: (task: StoredTask) => StoredTask;
+}
+
+// Applied in order to every task stored at an older version. Append new entries; never edit old ones.
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: "Replace the removed 'existing' branch target",
+    // The branch is kept as the one to check out; running the task asks to confirm it
+    migrate: task => {
+      const target = task.branchTarget;
+      if (!isStoredObject(target) || target.type !== 'existing') {
+        return task;
+      }
+      return { ...task, branchTarget: target.name ? { type: 'new', name: target.name } : { type: 'current' } };
+    }
+  },
+  {
+    version: 2,
+    description: 'Start revisions at 0 for tasks written before they existed',
+    migrate: task => ({ ...task, revision: task.revision ?? 0 })
+  }
+];
+
+export const TASK_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+// Bring tasks stored at `version` (0 for data from before versioning) up to the current schema
+export function migrateTasks(tasks: unknown[], version: number, source: string): Task[] {
+  if (version > TASK_SCHEMA_VERSION) {
+    throw new Error(
+      `${source} was written by a newer version of the extension (schema ${version}, this one reads up to ${TASK_SCHEMA_VERSION}). Update the extension before editing this board.`
+    );
+  }
+  const pending = MIGRATIONS.filter(m => m.version > version);
+  return tasks.map(task => {
+    if (!isStoredObject(task)) {
+      throw new Error(`${source} holds an entry that isn't a task: ${JSON.stringify(task)}`);
+    }
+    return pending.reduce((migrated, m) => m.migrate(migrated), task) as unknown as Task;
+  });
+}
+
+function isStoredObject(value: unknown): value is StoredTask {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -1,11 +1,47 @@
-// Status enum
-export type Status = 'BACKLOG' | 'IN_PROGRESS' | 'WAITING_APPROVAL' | 'FINISHED';
+// Workflow statuses every board has; projects may add extra columns
+export type CoreStatus = 'BACKLOG' | 'IN_PROGRESS' | 'WAITING_APPROVAL' | 'FINISHED';
+export const CORE_STATUSES: CoreStatus[] = ['BACKLOG', 'IN_PROGRESS', 'WAITING_APPROVAL', 'FINISHED'];
 
-// Category enum
-export type Category = 'CORE' | 'UI' | 'API';
+// Status, category and priority values come from the project's board config
+export type Status = CoreStatus | (string & {});
+export type Category = string;
+export type Priority = string;
 
-// Priority enum
-export type Priority = 'HIGH' | 'MEDIUM' | 'LOW';
+// Who performs a change
+export type Actor = 'user' | 'agent' | 'system';
+
+// Allows the listed actors to move tasks between the listed statuses ('*' matches any)
+export interface TransitionRule {
+  from: Status[] | '*';
+  to: Status[] | '*';
+  actors: Actor[];
+}
+
+// A configurable option (category, priority or column)
+export interface BoardOption {
+  id: string;
+  label: string;
+  color: string;
+}
+
+// What happens to a task whose running session stops sending heartbeats
+export type AbandonedRunAction = 'backlog' | 'flag';
+
+// Where the board's tasks are kept: JSON files per task, or one SQLite database
+export type StorageBackend = 'json' | 'sqlite';
+
+// Board schema loaded from .cursor-kanban/config.json
+export interface BoardConfig {
+  categories: BoardOption[];
+  priorities: BoardOption[]; // Ordered from most to least urgent
+  columns: BoardOption[]; // Column ids are statuses
+  transitions: TransitionRule[]; // A move is allowed if any rule matches
+  branchTemplate: string; // Placeholders: {category}, {priority}, {shortId}, {slug}
+  runTimeoutMinutes: number; // Running sessions silent this long are abandoned
+  abandonedRunAction: AbandonedRunAction;
+  storage: StorageBackend;
+  archiveAfterDays: number | null; // Finished tasks are archived this long after finishing; null keeps them
+}
 
 // Branch target types
 export type BranchTargetType = 'current' | 'new';
@@ -20,9 +56,10 @@ export interface HistoryEntry {
   at: string; // ISO timestamp
   from: Status | null;
   to: Status;
-  by: 'user' | 'agent' | 'system';
+  by: Actor;
   reason?: string;
   sessionId?: string;
+  refused?: boolean; // Attempted move rejected by the transition rules
 }
 
 // Log entry for tracking progress
@@ -32,13 +69,76 @@ export interface LogEntry {
   type: 'progress' | 'milestone' | 'warning' | 'error' | 'info';
 }
 
+// Checklist item (subtask / acceptance criterion)
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  completedAt?: string;
+  completedBy?: Actor;
+}
+
+// Checklist completion counts for list view
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+// Git worktree a task's runs execute in
+export interface WorktreeInfo {
+  path: string;
+  branch: string;
+  baseBranch?: string; // Checked out in the project when the worktree was created; finished work merges back into it
+  createdAt: string;
+}
+
+// How uncommitted changes were dealt with before a run switched branches
+export type DirtyTreeChoice = 'stash' | 'commit-wip' | 'abort';
+
+// Changes stashed before a run, restored when the run stops
+export interface StashInfo {
+  ref: string; // Stash commit hash
+  branch: string; // Branch the changes were stashed from
+  createdAt: string;
+}
+
+// Commit made during a run session
+export interface CommitInfo {
+  hash: string;
+  subject: string;
+}
+
+// Per-file diff stats, path relative to the repository root
+export interface FileChange {
+  path: string;
+  insertions: number;
+  deletions: number;
+}
+
+// What a run session changed between its start and stop commits
+export interface SessionChanges {
+  fromCommit: string;
+  toCommit: string;
+  commits: CommitInfo[];
+  files: FileChange[];
+  insertions: number;
+  deletions: number;
+}
+
 // Run session for tracking task execution
 export interface RunSession {
   sessionId: string;
-  startedAt: string;
+  startedAt: string; // Reservation time until a pending session is started
+  reservedAt?: string; // Set when Run reserved the session before an agent started it
+  expiresAt?: string; // Pending sessions not started by then expire
+  lastSeenAt?: string; // Last heartbeat or log from the agent
   endedAt?: string;
-  status: 'running' | 'stopped' | 'completed';
+  status: 'pending' | 'running' | 'stopped' | 'completed' | 'expired' | 'abandoned';
   logs: LogEntry[];
+  worktree?: WorktreeInfo;
+  startCommit?: string; // HEAD when the session started
+  changes?: SessionChanges; // Captured when the session stops
+  claimedBy?: string; // Agent that claimed the task through claimNextTask
 }
 
 // Main Task interface
@@ -52,8 +152,29 @@ export interface Task {
   status: Status;
   createdAt: string;
   updatedAt: string;
+  revision: number; // Incremented by every write that changes the task
   history: HistoryEntry[];
   runSessions: RunSession[];
+  blockedBy?: string[]; // IDs of tasks that must be FINISHED before this one can start
+  blocks?: string[]; // Inverse of blockedBy, maintained by TaskStore
+  checklist?: ChecklistItem[];
+  worktree?: WorktreeInfo; // Set while the task has an isolated worktree
+  stash?: StashInfo; // Set while stashed changes wait for the run to stop
+  abandonedRun?: AbandonedRun; // Set until the task is run again or moved by a user
+  archivedAt?: string; // Set while the task is in the archive
+}
+
+// A running session that stopped sending heartbeats
+export interface AbandonedRun {
+  sessionId: string;
+  lastSeenAt: string;
+  detectedAt: string;
+}
+
+// Minimal reference to another task
+export interface TaskRef {
+  id: string;
+  title: string;
 }
 
 // Input for creating a task
@@ -63,6 +184,8 @@ export interface CreateTaskInput {
   category: Category;
   priority: Priority;
   branchTarget: BranchTarget;
+  blockedBy?: string[];
+  checklist?: string[]; // Item texts, all created undone
 }
 
 // Input for updating a task
@@ -72,6 +195,8 @@ export interface UpdateTaskInput {
   category?: Category;
   priority?: Priority;
   branchTarget?: BranchTarget;
+  blockedBy?: string[];
+  expectedRevision?: number; // Fail with a conflict if the task has moved past this revision
 }
 
 // Input for updating status
@@ -79,8 +204,9 @@ export interface UpdateStatusInput {
   id: string;
   status: Status;
   reason?: string;
-  by: 'user' | 'agent' | 'system';
+  by: Actor;
   sessionId?: string;
+  expectedRevision?: number;
 }
 
 // Filter options for listing tasks
@@ -91,6 +217,7 @@ export interface TaskFilters {
   search?: string;
   limit?: number;
   cursor?: string;
+  includeArchived?: boolean; // Archived tasks are left out unless asked for
 }
 
 // Paginated result
@@ -107,15 +234,24 @@ export interface TaskSummary {
   category: Category;
   priority: Priority;
   updatedAt: string;
+  revision: number;
   recentLogs?: LogEntry[];
+  activeSessionId?: string; // Running session, if any
+  abandonedRun?: AbandonedRun;
+  blockers?: TaskRef[]; // Unfinished tasks this one is waiting on
+  checklistProgress?: ChecklistProgress;
+  archivedAt?: string;
 }
 
 // Board state for webview
+export interface BoardColumnState {
+  status: Status;
+  tasks: TaskSummary[];
+}
+
 export interface BoardState {
-  backlog: TaskSummary[];
-  inProgress: TaskSummary[];
-  waitingApproval: TaskSummary[];
-  finished: TaskSummary[];
+  config: BoardConfig;
+  columns: BoardColumnState[];
 }
 
 // Project/Workspace types
@@ -131,21 +267,35 @@ export type WebviewMessage =
   | { type: 'createTask'; payload: CreateTaskInput }
   | { type: 'updateTask'; payload: { id: string; data: UpdateTaskInput } }
   | { type: 'deleteTask'; payload: { id: string } }
-  | { type: 'moveTask'; payload: { id: string; status: Status } }
+  | { type: 'moveTask'; payload: { id: string; status: Status; expectedRevision?: number } }
   | { type: 'runTask'; payload: { id: string } }
   | { type: 'stopTask'; payload: { id: string; sessionId: string } }
+  | { type: 'stopActiveRun'; payload: { id: string } }
   | { type: 'finishTask'; payload: { id: string } }
   | { type: 'getTaskDetails'; payload: { id: string } }
+  | { type: 'addChecklistItem'; payload: { id: string; text: string } }
+  | { type: 'setChecklistItem'; payload: { id: string; itemId: string; done: boolean } }
+  | { type: 'openDiff'; payload: { id: string; sessionId: string; path: string } }
+  | { type: 'archiveTask'; payload: { id: string } }
+  | { type: 'restoreTask'; payload: { id: string } }
+  | { type: 'getArchivedTasks'; payload: { search?: string } }
   | { type: 'refresh' }
   | { type: 'switchProject'; payload: { projectId: string } };
 
+// A webview change refused because the task was modified since the webview loaded it
+export type ConflictingChange =
+  | { type: 'updateTask'; data: UpdateTaskInput }
+  | { type: 'moveTask'; status: Status };
+
 // Messages from extension to webview
 export type ExtensionMessage =
   | { type: 'boardState'; payload: BoardState }
   | { type: 'taskDetails'; payload: Task }
-  | { type: 'error'; payload: { message: string } }
+  | { type: 'error'; payload: { message: string; code?: string } }
   | { type: 'taskCreated'; payload: { id: string } }
   | { type: 'taskUpdated'; payload: { id: string } }
   | { type: 'taskRunStarted'; payload: { id: string; sessionId: string } }
+  | { type: 'revisionConflict'; payload: { task: Task; change: ConflictingChange } }
+  | { type: 'archivedTasks'; payload: TaskSummary[] }
   | { type: 'projectsState'; payload: { projects: Project[]; activeProjectId: string } };
 
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BOARD_CONFIG } from './boardConfig';
+import { allowedTransitions, DEFAULT_TRANSITIONS, isTransitionAllowed } from './workflow';
+
+describe('isTransitionAllowed', () => {
+  it('lets users make any move', () => {
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'BACKLOG', 'FINISHED', 'user')).toBe(true);
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'FINISHED', 'BACKLOG', 'user')).toBe(true);
+  });
+
+  it('keeps agents away from approval and finished tasks', () => {
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'BACKLOG', 'IN_PROGRESS', 'agent')).toBe(true);
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'IN_PROGRESS', 'IN_PROGRESS', 'agent')).toBe(true);
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'IN_PROGRESS', 'WAITING_APPROVAL', 'agent')).toBe(true);
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'WAITING_APPROVAL', 'FINISHED', 'agent')).toBe(false);
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'BACKLOG', 'FINISHED', 'agent')).toBe(false);
+    expect(isTransitionAllowed(DEFAULT_TRANSITIONS, 'FINISHED', 'IN_PROGRESS', 'system')).toBe(false);
+  });
+
+  it('supports custom rules for extra columns', () => {
+    const rules = [...DEFAULT_TRANSITIONS, { from: ['IN_PROGRESS'], to: ['QA'], actors: ['agent' as const] }];
+
+    expect(isTransitionAllowed(rules, 'IN_PROGRESS', 'QA', 'agent')).toBe(true);
+    expect(isTransitionAllowed(rules, 'QA', 'FINISHED', 'agent')).toBe(false);
+  });
+});
+
+describe('allowedTransitions', () => {
+  it('lists the target columns open to the actor', () => {
+    expect(allowedTransitions(DEFAULT_BOARD_CONFIG, 'IN_PROGRESS', 'agent')).toEqual([
+      'BACKLOG', 'IN_PROGRESS', 'WAITING_APPROVAL'
+    ]);
+    expect(allowedTransitions(DEFAULT_BOARD_CONFIG, 'FINISHED', 'agent')).toEqual([]);
+  });
+});
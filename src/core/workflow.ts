@@ -0,0 +1,40 @@
+import { Actor, BoardConfig, Status, TransitionRule } from './types';
+
+// Humans may move anything; agents (and runs they drive) only work the active part of the board
+export const DEFAULT_TRANSITIONS: TransitionRule[] = [
+  { from: '*', to: '*', actors: ['user'] },
+  { from: ['BACKLOG', 'IN_PROGRESS', 'WAITING_APPROVAL'], to: ['IN_PROGRESS'], actors: ['agent', 'system'] },
+  { from: ['IN_PROGRESS'], to: ['WAITING_APPROVAL', 'BACKLOG'], actors: ['agent', 'system'] }
+];
+
+function matches(statuses: Status[] | '*', status: Status): boolean {
+  return statuses === '*' || statuses.includes(status);
+}
+
+export function isTransitionAllowed(rules: TransitionRule[], from: Status, to: Status, by: Actor): boolean {
+  return rules.some(rule => rule.actors.includes(by) && matches(rule.from, from) && matches(rule.to, to));
+}
+
+// Statuses the actor may move a task in `from` to
+export function allowedTransitions(config: BoardConfig, from: Status, by: Actor): Status[] {
+  return config.columns
+    .map(c => c.id)
+    .filter(to => isTransitionAllowed(config.transitions, from, to, by));
+}
+
+export class TransitionError extends Error {
+  readonly code = 'TRANSITION_REJECTED';
+
+  constructor(
+    readonly from: Status,
+    readonly to: Status,
+    readonly by: Actor,
+    readonly allowed: Status[]
+  ) {
+    super(
+      `Transition ${from} → ${to} is not allowed for ${by}` +
+      (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : '')
+    );
+    this.name = 'TransitionError';
+  }
+}
@@ -1,11 +1,23 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
+import * as readline from 'readline';
+import { randomBytes } from 'crypto';
 import { ChildProcess, spawn } from 'child_process';
-import { KanbanViewProvider } from './webviewProvider';
+import { KanbanViewProvider, GIT_REVISION_SCHEME } from './webviewProvider';
 import { TaskStore } from './core/TaskStore';
+import { GitHelper, validateBranchName } from './core/gitHelper';
 
 let mcpProcess: ChildProcess | null = null;
+let mcpUrl: string | null = null; // Set once the HTTP server reports where it listens
+
+// Persisted so copied client configs keep working across restarts
+const MCP_TOKEN_SECRET = 'kanban.mcpToken';
+// Fixed for the same reason; kanban.mcpPort defaults to it
+const DEFAULT_MCP_PORT = 7337;
+
+const STALE_RUN_CHECK_INTERVAL_MS = 60_000;
+const ARCHIVE_CHECK_INTERVAL_MS = 60 * 60_000;
 
 export function activate(context: vscode.ExtensionContext) {
   const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
@@ -25,6 +37,24 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  context.subscriptions.push(
+    vscode.workspace.registerTextDocumentContentProvider(GIT_REVISION_SCHEME, {
+      provideTextDocumentContent: (uri) => {
+        const { root, ref } = JSON.parse(uri.query);
+        return new GitHelper(root).showFile(ref, uri.path.slice(1));
+      }
+    })
+  );
+
+  // Sessions whose agent went silent are abandoned by the board, not by the agent
+  const staleRunTimer = setInterval(() => kanbanProvider.checkStaleRuns(), STALE_RUN_CHECK_INTERVAL_MS);
+  context.subscriptions.push({ dispose: () => clearInterval(staleRunTimer) });
+
+  // Finished tasks past the board's archiveAfterDays move to the archive
+  kanbanProvider.archiveFinishedTasks();
+  const archiveTimer = setInterval(() => kanbanProvider.archiveFinishedTasks(), ARCHIVE_CHECK_INTERVAL_MS);
+  context.subscriptions.push({ dispose: () => clearInterval(archiveTimer) });
+
   // Register commands
   context.subscriptions.push(
     vscode.commands.registerCommand('kanban.openBoard', () => {
@@ -53,15 +83,25 @@ export function activate(context: vscode.ExtensionContext) {
 
       if (!title) return;
 
-      const category = await vscode.window.showQuickPick(['CORE', 'UI', 'API'], {
-        placeHolder: 'Select category'
-      });
+      let config;
+      try {
+        config = taskStore.getBoardConfig();
+      } catch (error) {
+        vscode.window.showErrorMessage(`Failed to load board config: ${error}`);
+        return;
+      }
+
+      const category = await vscode.window.showQuickPick(
+        config.categories.map(c => ({ label: c.label, description: c.id, value: c.id })),
+        { placeHolder: 'Select category' }
+      );
 
       if (!category) return;
 
-      const priority = await vscode.window.showQuickPick(['HIGH', 'MEDIUM', 'LOW'], {
-        placeHolder: 'Select priority'
-      });
+      const priority = await vscode.window.showQuickPick(
+        config.priorities.map(p => ({ label: p.label, description: p.id, value: p.id })),
+        { placeHolder: 'Select priority' }
+      );
 
       if (!priority) return;
 
@@ -79,16 +119,17 @@ export function activate(context: vscode.ExtensionContext) {
       if (branchType.value === 'new') {
         branchName = await vscode.window.showInputBox({
           prompt: 'New branch name',
-          placeHolder: 'feat/my-feature'
+          placeHolder: `Leave empty to use ${config.branchTemplate}`,
+          validateInput: (value) => value ? validateBranchName(value) : null
         });
-        if (!branchName) return;
+        if (branchName === undefined) return;
       }
 
       try {
         const task = await taskStore.createTask({
           title,
-          category: category as 'CORE' | 'UI' | 'API',
-          priority: priority as 'HIGH' | 'MEDIUM' | 'LOW',
+          category: category.value,
+          priority: priority.value,
           branchTarget: {
             type: branchType.value as 'current' | 'new',
             name: branchName
@@ -116,7 +157,11 @@ export function activate(context: vscode.ExtensionContext) {
       });
 
       if (selected) {
-        kanbanProvider.handleRunTask(selected.id);
+        try {
+          await kanbanProvider.handleRunTask(selected.id);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to run task: ${error instanceof Error ? error.message : error}`);
+        }
       }
     })
   );
@@ -134,14 +179,12 @@ export function activate(context: vscode.ExtensionContext) {
       });
 
       if (selected) {
-        const task = await taskStore.getTask(selected.id);
-        if (task) {
-          const activeSession = task.runSessions.find(s => s.status === 'running');
-          if (activeSession) {
-            await taskStore.stopRun(selected.id, activeSession.sessionId);
-            kanbanProvider.refresh();
-            vscode.window.showInformationMessage(`Task stopped: ${task.title}`);
-          }
+        try {
+          await taskStore.stopActiveRun(selected.id);
+          kanbanProvider.refresh();
+          vscode.window.showInformationMessage(`Task stopped: ${selected.label}`);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to stop task: ${error instanceof Error ? error.message : error}`);
         }
       }
     })
@@ -160,25 +203,43 @@ export function activate(context: vscode.ExtensionContext) {
       });
 
       if (selected) {
-        await taskStore.updateStatus({
-          id: selected.id,
-          status: 'FINISHED',
-          by: 'user'
-        });
-        kanbanProvider.refresh();
-        vscode.window.showInformationMessage('Task marked as finished');
+        try {
+          await taskStore.updateStatus({
+            id: selected.id,
+            status: 'FINISHED',
+            by: 'user'
+          });
+          kanbanProvider.refresh();
+          vscode.window.showInformationMessage('Task marked as finished');
+          await kanbanProvider.offerWorktreeCleanup(selected.id);
+        } catch (error) {
+          vscode.window.showErrorMessage(`Failed to finish task: ${error instanceof Error ? error.message : error}`);
+        }
       }
     })
   );
 
   context.subscriptions.push(
     vscode.commands.registerCommand('kanban.copyMcpConfig', async () => {
-      const activeProjectPath = kanbanProvider.getActiveProjectPath();
-      const mcpPath = path.join(context.extensionPath, 'dist', 'mcp', 'index.mjs');
+      if (!mcpUrl) {
+        // The shared server isn't up (not built or failed to start); clients can still spawn their own
+        const mcpPath = path.join(context.extensionPath, 'dist', 'mcp', 'index.mjs');
+        const config = {
+          "projektieren": {
+            command: "node",
+            args: [mcpPath, ...kanbanProvider.getProjectPaths().flatMap(root => ["--workspaceRoot", root])]
+          }
+        };
+
+        await vscode.env.clipboard.writeText(JSON.stringify(config, null, 2));
+        vscode.window.showWarningMessage('MCP server is not running; copied a config that starts its own server instead');
+        return;
+      }
+
       const config = {
         "projektieren": {
-          command: "node",
-          args: [mcpPath, "--workspaceRoot", activeProjectPath]
+          url: mcpUrl,
+          headers: { Authorization: `Bearer ${await getMcpToken(context)}` }
         }
       };
       
@@ -187,8 +248,8 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
-  // Start MCP server with active project
-  startMcpServer(context, kanbanProvider.getActiveProjectPath());
+  // Start MCP server for every project, the active one as its default
+  startMcpServer(context, kanbanProvider.getProjectPaths());
 
   // Watch for file changes in all workspace folders to sync state
   const watchers: vscode.FileSystemWatcher[] = [];
@@ -201,13 +262,20 @@ export function activate(context: vscode.ExtensionContext) {
     // Create watchers for all workspace folders
     const folders = vscode.workspace.workspaceFolders || [];
     for (const folder of folders) {
+      // Task files and the index, or tasks.sqlite on boards stored in SQLite
       const watcher = vscode.workspace.createFileSystemWatcher(
-        new vscode.RelativePattern(folder.uri.fsPath, '.cursor-kanban/tasks.json')
+        new vscode.RelativePattern(folder.uri.fsPath, '.cursor-kanban/**/*.{json,sqlite}')
       );
       
       watcher.onDidChange(() => {
         kanbanProvider.refresh();
       });
+      watcher.onDidCreate(() => {
+        kanbanProvider.refresh();
+      });
+      watcher.onDidDelete(() => {
+        kanbanProvider.refresh();
+      });
       
       watchers.push(watcher);
     }
@@ -227,7 +295,17 @@ export function activate(context: vscode.ExtensionContext) {
   });
 }
 
-function startMcpServer(context: vscode.ExtensionContext, workspaceRoot: string) {
+async function getMcpToken(context: vscode.ExtensionContext): Promise<string> {
+  let token = await context.secrets.get(MCP_TOKEN_SECRET);
+  if (!token) {
+    token = randomBytes(32).toString('hex');
+    await context.secrets.store(MCP_TOKEN_SECRET, token);
+  }
+  return token;
+}
+
+// Runs one HTTP MCP server for the workspace that agents connect to by URL
+async function startMcpServer(context: vscode.ExtensionContext, workspaceRoots: string[]) {
   const mcpPath = path.join(context.extensionPath, 'dist', 'mcp', 'index.mjs');
   
   // Check if MCP server exists
@@ -236,19 +314,50 @@ function startMcpServer(context: vscode.ExtensionContext, workspaceRoot: string)
     return;
   }
 
+  const output = vscode.window.createOutputChannel('Projektieren MCP');
+  context.subscriptions.push(output);
+
   try {
-    mcpProcess = spawn('node', ['--experimental-modules', mcpPath, '--workspaceRoot', workspaceRoot], {
-      stdio: ['pipe', 'pipe', 'pipe'],
-      env: { ...process.env, KANBAN_WORKSPACE_ROOT: workspaceRoot }
-    });
+    const configuredPort = vscode.workspace.getConfiguration('kanban').get<number>('mcpPort', DEFAULT_MCP_PORT);
+    const token = await getMcpToken(context);
+    const rootArgs = workspaceRoots.flatMap(root => ['--workspaceRoot', root]);
+
+    const spawnServer = (port: number) => {
+      // The token goes through the environment so it doesn't show up in process listings
+      const child = spawn('node', ['--experimental-modules', mcpPath, ...rootArgs, '--http', '--port', String(port)], {
+        stdio: ['ignore', 'pipe', 'pipe'],
+        env: { ...process.env, KANBAN_WORKSPACE_ROOT: workspaceRoots[0], KANBAN_MCP_TOKEN: token }
+      });
+      mcpProcess = child;
+      let listening = false;
+
+      // The first stdout line reports the URL; stderr carries the server's log
+      readline.createInterface({ input: child.stdout! }).once('line', (line) => {
+        try {
+          mcpUrl = JSON.parse(line).url;
+          listening = true;
+        } catch {
+          output.appendLine(line);
+        }
+      });
+      readline.createInterface({ input: child.stderr! }).on('line', (line) => output.appendLine(line));
 
-    mcpProcess.on('error', (err) => {
-      console.error('MCP server error:', err);
-    });
+      child.on('error', (err) => {
+        output.appendLine(`MCP server error: ${err.message}`);
+      });
 
-    mcpProcess.on('exit', (code) => {
-      console.log('MCP server exited with code:', code);
-    });
+      child.on('exit', (code) => {
+        mcpUrl = null;
+        output.appendLine(`MCP server exited with code: ${code}`);
+
+        // The fixed port is usually taken by another window's server
+        if (!listening && port !== 0 && mcpProcess === child) {
+          output.appendLine(`Could not listen on port ${port}; starting on a free port. Configs copied from this window will only work until it restarts.`);
+          spawnServer(0);
+        }
+      });
+    };
+    spawnServer(configuredPort);
 
     context.subscriptions.push({
       dispose: () => {
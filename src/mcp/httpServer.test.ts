@@ -0,0 +1,83 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { TaskStore } from '../core';
+import { RunningHttpServer, startHttpServer } from './httpServer';
+
+const TOKEN = 'test-token';
+
+describe('HTTP transport', () => {
+  let workspaceRoot: string;
+  let server: RunningHttpServer;
+  const clients: Client[] = [];
+
+  beforeEach(async () => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    server = await startHttpServer(new TaskStore(workspaceRoot), { port: 0, token: TOKEN });
+  });
+
+  afterEach(async () => {
+    await Promise.all(clients.splice(0).map(c => c.close()));
+    await server.close();
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  const connect = async (token = TOKEN) => {
+    const client = new Client({ name: 'kanban-test', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(server.url), {
+      requestInit: { headers: { Authorization: `Bearer ${token}` } }
+    });
+    await client.connect(transport);
+    clients.push(client);
+    return client;
+  };
+
+  const call = async (client: Client, name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return JSON.parse((result.content as { text: string }[])[0].text);
+  };
+
+  it('listens on localhost only', () => {
+    expect(server.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+  });
+
+  it('lets several clients share one board', async () => {
+    const first = await connect();
+    const second = await connect();
+
+    const task = await call(first, 'kanban.createTask', {
+      title: 'Write the docs',
+      category: 'CORE',
+      priority: 'MEDIUM',
+      branchTarget: { type: 'current' }
+    });
+    expect(await call(second, 'kanban.getTask', { id: task.id })).toMatchObject({ title: 'Write the docs' });
+  });
+
+  it('refuses requests without the token', async () => {
+    await expect(connect('wrong-token')).rejects.toThrow();
+
+    const response = await fetch(server.url, { method: 'POST', body: '{}' });
+    expect(response.status).toBe(401);
+  });
+
+  it('only starts a session for an initialize request', async () => {
+    const response = await fetch(server.url, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${TOKEN}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream'
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    expect(response.status).toBe(400);
+    expect(response.headers.get('mcp-session-id')).toBeNull();
+
+    const client = await connect();
+    expect((await client.listTools()).tools.length).toBeGreaterThan(0);
+  });
+});
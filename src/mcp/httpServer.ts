@@ -0,0 +1,140 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { TaskStore } from '../core';
+import { createKanbanServer, KanbanServerOptions } from './kanbanServer';
+import { ProjectSet } from './projects';
+
+export const MCP_PATH = '/mcp';
+
+// Same cap as the SDK transport applies when it reads the body itself
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+// Only this machine can reach the server; the token keeps out other users and web pages
+const HOST = '127.0.0.1';
+
+export interface HttpServerOptions extends KanbanServerOptions {
+  port: number; // 0 picks a free port
+  token: string;
+}
+
+export interface RunningHttpServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+// Serve MCP over streamable HTTP (with SSE streams for notifications). Every client session gets its
+// own MCP server, and all of them share the TaskStores, so agents and the extension use one lock holder.
+export async function startHttpServer(target: TaskStore | ProjectSet, options: HttpServerOptions): Promise<RunningHttpServer> {
+  const transports = new Map<string, StreamableHTTPServerTransport>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    const url = new URL(req.url ?? '/', `http://${HOST}`);
+    if (url.pathname !== MCP_PATH) {
+      return sendError(res, 404, 'Not found');
+    }
+    if (!isAuthorized(req, options.token)) {
+      return sendError(res, 401, 'Missing or invalid bearer token');
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const transport = typeof sessionId === 'string' ? transports.get(sessionId) : undefined;
+    if (transport) {
+      return handle(transport, req, res);
+    }
+    if (sessionId !== undefined || req.method !== 'POST') {
+      return sendError(res, 404, 'Unknown session');
+    }
+
+    // Only an initialize request starts a session, so check it before creating anything
+    let body: unknown;
+    try {
+      body = await readJsonBody(req);
+    } catch (error) {
+      return sendError(res, 400, `Invalid request body: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!isInitializeRequest(body)) {
+      return sendError(res, 400, 'A new session must start with an initialize request');
+    }
+
+    const created = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: id => {
+        transports.set(id, created);
+      },
+      enableDnsRebindingProtection: true,
+      allowedHosts: [`${HOST}:${port()}`, `localhost:${port()}`]
+    });
+    created.onclose = () => {
+      if (created.sessionId) {
+        transports.delete(created.sessionId);
+      }
+    };
+    const mcpServer = createKanbanServer(target, options);
+    await mcpServer.connect(created);
+    await handle(created, req, res, body);
+    // A refused handshake (bad host, wrong protocol headers, ...) never gets a session; don't keep it around
+    if (!created.sessionId) {
+      await mcpServer.close();
+    }
+  });
+
+  const port = () => (httpServer.address() as AddressInfo).port;
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, HOST, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  return {
+    url: `http://${HOST}:${port()}${MCP_PATH}`,
+    close: async () => {
+      await Promise.all([...transports.values()].map(t => t.close()));
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+    }
+  };
+}
+
+async function handle(
+  transport: StreamableHTTPServerTransport,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  body?: unknown
+): Promise<void> {
+  try {
+    await transport.handleRequest(req, res, body);
+  } catch (error) {
+    if (!res.headersSent) {
+      sendError(res, 500, error instanceof Error ? error.message : String(error));
+    }
+  }
+}
+
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+function isAuthorized(req: http.IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`);
+  const actual = Buffer.from(req.headers.authorization ?? '');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function sendError(res: http.ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
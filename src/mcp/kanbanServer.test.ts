@@ -0,0 +1,1225 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TaskStore,
+  Task,
+  TaskSummary,
+  CreateTaskInput,
+  UpdateTaskInput,
+  UpdateStatusInput,
+  TaskFilters,
+  PaginatedResult,
+  LogEntry,
+  ChecklistItem,
+  RunSession,
+  renderExecuteTaskPrompt
+} from '../core';
+import { createKanbanServer } from './kanbanServer';
+import { ProjectSet } from './projects';
+
+// The operations every entry point must support identically, acting as an agent
+interface TaskBackend {
+  createTask(input: CreateTaskInput): Promise<string>;
+  getTask(id: string): Promise<Task | null>;
+  listTasks(filters?: TaskFilters): Promise<PaginatedResult<TaskSummary>>;
+  updateTask(id: string, input: UpdateTaskInput): Promise<void>;
+  updateStatus(input: Omit<UpdateStatusInput, 'by'>): Promise<void>;
+  startRun(id: string, sessionId?: string): Promise<string>;
+  stopRun(id: string, sessionId: string): Promise<void>;
+  stopActiveRun(id: string): Promise<void>;
+  addLog(id: string, sessionId: string, message: string, type?: LogEntry['type']): Promise<LogEntry>;
+  heartbeat(id: string, sessionId: string): Promise<void>;
+  claimNextTask(categories?: string[], priorities?: string[]): Promise<{ task: Task; sessionId: string } | null>;
+  addChecklistItem(id: string, text: string): Promise<ChecklistItem>;
+  setChecklistItem(id: string, itemId: string, done: boolean): Promise<ChecklistItem>;
+  close(): Promise<void>;
+}
+
+async function coreBackend(workspaceRoot: string): Promise<TaskBackend> {
+  const store = new TaskStore(workspaceRoot);
+  return {
+    createTask: async (input) => (await store.createTask(input)).id,
+    getTask: (id) => store.getTask(id),
+    listTasks: (filters) => store.listTasks(filters),
+    updateTask: async (id, input) => { await store.updateTask(id, input); },
+    updateStatus: async (input) => { await store.updateStatus({ ...input, by: 'agent' }); },
+    startRun: async (id, sessionId) => (await store.startRun(id, sessionId)).sessionId,
+    stopRun: async (id, sessionId) => { await store.stopRun(id, sessionId); },
+    stopActiveRun: async (id) => { await store.stopActiveRun(id); },
+    addLog: (id, sessionId, message, type) => store.addLog(id, sessionId, message, type),
+    heartbeat: async (id, sessionId) => { await store.heartbeat(id, sessionId); },
+    claimNextTask: (categories, priorities) => store.claimNextTask(categories, priorities),
+    addChecklistItem: (id, text) => store.addChecklistItem(id, text),
+    setChecklistItem: (id, itemId, done) => store.setChecklistItem(id, itemId, done, 'agent'),
+    close: async () => {}
+  };
+}
+
+async function connectClient(workspaceRoot: string): Promise<Client> {
+  const server = createKanbanServer(new TaskStore(workspaceRoot));
+  const client = new Client({ name: 'kanban-test', version: '0.0.0' });
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+  return client;
+}
+
+function writeBoardConfig(workspaceRoot: string, config: object): void {
+  fs.writeFileSync(path.join(workspaceRoot, '.cursor-kanban', 'config.json'), JSON.stringify(config));
+}
+
+async function mcpBackend(workspaceRoot: string): Promise<TaskBackend> {
+  const client = await connectClient(workspaceRoot);
+
+  const call = async (name: string, args: Record<string, unknown> = {}): Promise<any> => {
+    const result = await client.callTool({ name, arguments: args });
+    const [content] = result.content as { type: string; text: string }[];
+    const data = JSON.parse(content.text);
+    if (result.isError) {
+      throw new Error(data.error);
+    }
+    return data;
+  };
+
+  return {
+    createTask: async (input) => (await call('kanban.createTask', { ...input })).id,
+    getTask: async (id) => {
+      try {
+        return await call('kanban.getTask', { id });
+      } catch {
+        return null;
+      }
+    },
+    listTasks: (filters) => call('kanban.listTasks', { ...filters }),
+    updateTask: async (id, input) => { await call('kanban.updateTask', { id, ...input }); },
+    updateStatus: async (input) => { await call('kanban.updateStatus', { ...input }); },
+    startRun: async (id, sessionId) => (await call('kanban.startRun', { id, sessionId })).sessionId,
+    stopRun: async (id, sessionId) => { await call('kanban.stopRun', { id, sessionId }); },
+    stopActiveRun: async (id) => { await call('kanban.stopActiveRun', { id }); },
+    addLog: async (id, sessionId, message, type) =>
+      (await call('kanban.addLog', { id, sessionId, message, type })).log,
+    heartbeat: async (id, sessionId) => { await call('kanban.heartbeat', { id, sessionId }); },
+    claimNextTask: async (categories, priorities) => {
+      const { task, sessionId } = await call('kanban.claimNextTask', { categories, priorities });
+      return task ? { task, sessionId } : null;
+    },
+    addChecklistItem: async (id, text) => (await call('kanban.addChecklistItem', { id, text })).item,
+    setChecklistItem: async (id, itemId, done) =>
+      (await call('kanban.setChecklistItem', { id, itemId, done })).item,
+    close: () => client.close()
+  };
+}
+
+const BACKENDS: [string, (workspaceRoot: string) => Promise<TaskBackend>][] = [
+  ['core TaskStore', coreBackend],
+  ['MCP server', mcpBackend]
+];
+
+function taskInput(overrides: Partial<CreateTaskInput> = {}): CreateTaskInput {
+  return {
+    title: 'Write the docs',
+    category: 'CORE',
+    priority: 'MEDIUM',
+    branchTarget: { type: 'current' },
+    ...overrides
+  };
+}
+
+describe.each(BACKENDS)('task behavior via %s', (_label, createBackend) => {
+  let workspaceRoot: string;
+  let backend: TaskBackend;
+  // Human actions always go through the extension's store
+  let userStore: TaskStore;
+
+  beforeEach(async () => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    backend = await createBackend(workspaceRoot);
+    userStore = new TaskStore(workspaceRoot);
+  });
+
+  afterEach(async () => {
+    await backend.close();
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('creates tasks in BACKLOG with an initial history entry', async () => {
+    const id = await backend.createTask(taskInput({ description: 'Some details' }));
+    const task = await backend.getTask(id);
+
+    expect(task).toMatchObject({
+      id,
+      title: 'Write the docs',
+      description: 'Some details',
+      status: 'BACKLOG',
+      runSessions: []
+    });
+    expect(task?.history).toEqual([
+      expect.objectContaining({ from: null, to: 'BACKLOG', by: 'user' })
+    ]);
+  });
+
+  it('rejects titles shorter than 3 characters', async () => {
+    await expect(backend.createTask(taskInput({ title: 'ab' }))).rejects.toThrow(
+      'Title must be at least 3 characters'
+    );
+  });
+
+  it('returns null for unknown tasks', async () => {
+    expect(await backend.getTask('missing')).toBeNull();
+  });
+
+  it('filters and sorts by priority, then oldest first', async () => {
+    const low = await backend.createTask(taskInput({ title: 'Low task', priority: 'LOW' }));
+    const highUi = await backend.createTask(taskInput({ title: 'High UI', priority: 'HIGH', category: 'UI' }));
+    const high = await backend.createTask(taskInput({ title: 'High core', priority: 'HIGH' }));
+
+    const all = await backend.listTasks();
+    expect(all.items.map(t => t.id)).toEqual([highUi, high, low]);
+
+    const core = await backend.listTasks({ category: ['CORE'] });
+    expect(core.items.map(t => t.id)).toEqual([high, low]);
+
+    const search = await backend.listTasks({ search: 'ui' });
+    expect(search.items.map(t => t.id)).toEqual([highUi]);
+  });
+
+  it('paginates with a cursor', async () => {
+    const ids: string[] = [];
+    for (const title of ['First task', 'Second task', 'Third task']) {
+      ids.push(await backend.createTask(taskInput({ title })));
+    }
+
+    const page1 = await backend.listTasks({ limit: 2 });
+    expect(page1.items.map(t => t.id)).toEqual(ids.slice(0, 2));
+    expect(page1.nextCursor).toBe(ids[1]);
+
+    const page2 = await backend.listTasks({ limit: 2, cursor: page1.nextCursor! });
+    expect(page2.items.map(t => t.id)).toEqual(ids.slice(2));
+    expect(page2.nextCursor).toBeNull();
+  });
+
+  it('updates task fields', async () => {
+    const id = await backend.createTask(taskInput());
+    await backend.updateTask(id, { title: 'Rewrite the docs', priority: 'HIGH' });
+
+    expect(await backend.getTask(id)).toMatchObject({ title: 'Rewrite the docs', priority: 'HIGH' });
+  });
+
+  it('bumps the revision on every change', async () => {
+    const id = await backend.createTask(taskInput());
+    expect((await backend.getTask(id))?.revision).toBe(1);
+
+    await backend.updateTask(id, { title: 'Rewrite the docs' });
+    const sessionId = await backend.startRun(id);
+    await backend.addLog(id, sessionId, 'Working');
+
+    expect((await backend.getTask(id))?.revision).toBe(4);
+    expect((await backend.listTasks()).items[0].revision).toBe(4);
+  });
+
+  it('refuses updates made against a stale revision', async () => {
+    const id = await backend.createTask(taskInput());
+    await userStore.updateTask(id, { description: 'Edited by a human' });
+
+    await expect(backend.updateTask(id, { title: 'Agent title', expectedRevision: 1 }))
+      .rejects.toThrow('expected revision 1, current revision 2');
+    await expect(backend.updateStatus({ id, status: 'IN_PROGRESS', expectedRevision: 1 }))
+      .rejects.toThrow('expected revision 1, current revision 2');
+
+    const task = await backend.getTask(id);
+    expect(task).toMatchObject({ title: 'Write the docs', status: 'BACKLOG', revision: 2 });
+    expect(task?.history.some(h => h.refused)).toBe(false);
+
+    await backend.updateTask(id, { title: 'Agent title', expectedRevision: 2 });
+    await backend.updateStatus({ id, status: 'IN_PROGRESS', expectedRevision: 3 });
+    expect(await backend.getTask(id)).toMatchObject({ title: 'Agent title', status: 'IN_PROGRESS', revision: 4 });
+  });
+
+  it('records status changes in history', async () => {
+    const id = await backend.createTask(taskInput());
+    await backend.updateStatus({ id, status: 'IN_PROGRESS', reason: 'Picked up' });
+
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('IN_PROGRESS');
+    expect(task?.history.at(-1)).toMatchObject({
+      from: 'BACKLOG',
+      to: 'IN_PROGRESS',
+      by: 'agent',
+      reason: 'Picked up'
+    });
+  });
+
+  it('refuses agent moves that skip approval and records the attempt', async () => {
+    const id = await backend.createTask(taskInput());
+
+    await expect(backend.updateStatus({ id, status: 'FINISHED', reason: 'Trust me' })).rejects.toThrow(
+      'Transition BACKLOG → FINISHED is not allowed for agent (allowed: IN_PROGRESS)'
+    );
+
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('BACKLOG');
+    expect(task?.history.at(-1)).toMatchObject({
+      from: 'BACKLOG',
+      to: 'FINISHED',
+      by: 'agent',
+      reason: 'Trust me',
+      refused: true
+    });
+  });
+
+  it('leaves approval and finished tasks to users', async () => {
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+    await backend.stopRun(id, sessionId);
+
+    await expect(backend.updateStatus({ id, status: 'FINISHED' })).rejects.toThrow('not allowed for agent');
+    await userStore.updateStatus({ id, status: 'FINISHED', by: 'user' });
+
+    await expect(backend.updateStatus({ id, status: 'IN_PROGRESS' })).rejects.toThrow(
+      'Transition FINISHED → IN_PROGRESS is not allowed for agent'
+    );
+    await expect(backend.startRun(id)).rejects.toThrow('not allowed for system');
+    expect((await backend.getTask(id))?.status).toBe('FINISHED');
+  });
+
+  it('runs a session from start to stop with logs', async () => {
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+    expect((await backend.getTask(id))?.status).toBe('IN_PROGRESS');
+
+    await expect(backend.startRun(id)).rejects.toThrow('Task already has a running session');
+
+    const log = await backend.addLog(id, sessionId, 'Halfway there', 'milestone');
+    expect(log).toMatchObject({ message: 'Halfway there', type: 'milestone' });
+
+    const summary = (await backend.listTasks()).items[0];
+    expect(summary.recentLogs?.at(-1)?.message).toBe('Halfway there');
+
+    await backend.stopRun(id, sessionId);
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('WAITING_APPROVAL');
+    expect(task?.runSessions[0]).toMatchObject({ sessionId, status: 'stopped' });
+  });
+
+  it('stops the active run without knowing its session ID', async () => {
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+    expect((await backend.listTasks()).items[0].activeSessionId).toBe(sessionId);
+
+    await backend.stopActiveRun(id);
+
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('WAITING_APPROVAL');
+    expect(task?.runSessions[0]).toMatchObject({ sessionId, status: 'stopped' });
+    expect((await backend.listTasks()).items[0].activeSessionId).toBeUndefined();
+  });
+
+  it('ends the run of a task moved out of IN_PROGRESS without moving it again', async () => {
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+    await userStore.updateStatus({ id, status: 'BACKLOG', by: 'user' });
+
+    await userStore.stopActiveRun(id);
+
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('BACKLOG');
+    expect(task?.runSessions[0]).toMatchObject({ sessionId, status: 'stopped' });
+    expect(task?.history.at(-1)).toMatchObject({
+      from: 'BACKLOG',
+      to: 'BACKLOG',
+      by: 'system',
+      reason: "Run stopped; the workflow doesn't allow moving BACKLOG to WAITING_APPROVAL"
+    });
+    expect(task?.history.some(h => h.refused)).toBe(false);
+  });
+
+  it('refuses to stop when no session is running', async () => {
+    const id = await backend.createTask(taskInput());
+    await expect(backend.stopActiveRun(id)).rejects.toThrow('Task has no running session');
+
+    // A reservation hasn't started yet, so there is nothing to stop
+    await userStore.reserveRun(id);
+    await expect(backend.stopActiveRun(id)).rejects.toThrow('Task has no running session');
+
+    // Moved by hand rather than by a run
+    await userStore.updateStatus({ id, status: 'IN_PROGRESS', by: 'user' });
+    await expect(backend.stopActiveRun(id)).rejects.toThrow('Task has no running session');
+    expect((await backend.getTask(id))?.status).toBe('IN_PROGRESS');
+
+    const sessionId = await backend.startRun(id);
+    await backend.stopActiveRun(id);
+    await expect(backend.stopActiveRun(id)).rejects.toThrow('Task has no running session');
+    expect((await backend.getTask(id))?.runSessions.find(s => s.sessionId === sessionId)?.status).toBe('stopped');
+
+    await expect(backend.stopActiveRun('missing')).rejects.toThrow('Task not found');
+  });
+
+  it('tracks heartbeats and logs as signs of life', async () => {
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+    const lastSeen = async () => (await backend.getTask(id))?.runSessions[0].lastSeenAt;
+    const started = await lastSeen();
+    expect(started).toBeTruthy();
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await backend.heartbeat(id, sessionId);
+    const afterHeartbeat = await lastSeen();
+    expect(afterHeartbeat! > started!).toBe(true);
+
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await backend.addLog(id, sessionId, 'Still going');
+    expect((await lastSeen())! > afterHeartbeat!).toBe(true);
+
+    await backend.stopRun(id, sessionId);
+    await expect(backend.heartbeat(id, sessionId)).rejects.toThrow('Session is stopped, not running');
+    await expect(backend.heartbeat(id, 'run_missing')).rejects.toThrow('Session not found');
+  });
+
+  it('archives finished tasks and lists them only when asked', async () => {
+    const id = await backend.createTask(taskInput());
+    await userStore.updateStatus({ id, status: 'FINISHED', by: 'user' });
+    const day = 24 * 60 * 60_000;
+
+    expect(await userStore.archiveFinishedTasks(new Date(Date.now() + 29 * day))).toHaveLength(0);
+    const archived = await userStore.archiveFinishedTasks(new Date(Date.now() + 31 * day));
+    expect(archived.map(t => t.id)).toEqual([id]);
+
+    expect((await backend.listTasks()).items).toHaveLength(0);
+    const listed = await backend.listTasks({ includeArchived: true, search: 'docs' });
+    expect(listed.items).toEqual([expect.objectContaining({ id, archivedAt: expect.any(String) })]);
+    expect(await backend.getTask(id)).toMatchObject({ archivedAt: expect.any(String) });
+    await expect(backend.updateTask(id, { title: 'Edited in the archive' })).rejects.toThrow('Task not found');
+
+    await userStore.restoreTask(id);
+    expect((await backend.listTasks()).items.map(t => t.id)).toEqual([id]);
+    expect((await backend.getTask(id))?.archivedAt).toBeUndefined();
+    expect(await userStore.listArchivedTasks()).toHaveLength(0);
+  });
+
+  it('archives tasks by hand unless they are running', async () => {
+    const id = await backend.createTask(taskInput());
+    await backend.startRun(id);
+    await expect(userStore.archiveTask(id)).rejects.toThrow("Stop the task's run before archiving it");
+
+    const other = await backend.createTask(taskInput());
+    await userStore.archiveTask(other);
+    expect((await userStore.listArchivedTasks('docs')).map(t => t.id)).toEqual([other]);
+    expect((await backend.listTasks()).items.map(t => t.id)).toEqual([id]);
+
+    await userStore.deleteTask(other);
+    expect(await backend.getTask(other)).toBeNull();
+  });
+
+  it('drops the dependency links of an archived task', async () => {
+    const blocker = await backend.createTask(taskInput());
+    const blocked = await backend.createTask(taskInput({ blockedBy: [blocker] }));
+
+    await userStore.archiveTask(blocker);
+    expect(await backend.getTask(blocked)).toMatchObject({ blockedBy: [] });
+    expect(await backend.getTask(blocker)).not.toHaveProperty('blocks');
+    await expect(backend.startRun(blocked)).resolves.toEqual(expect.any(String));
+  });
+
+  it('flags runs that stop sending heartbeats', async () => {
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+
+    expect(await userStore.markAbandonedRuns(new Date(Date.now() + 29 * 60_000))).toHaveLength(0);
+    const abandoned = await userStore.markAbandonedRuns(new Date(Date.now() + 31 * 60_000));
+    expect(abandoned.map(t => t.id)).toEqual([id]);
+
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('IN_PROGRESS');
+    expect(task?.runSessions[0].status).toBe('abandoned');
+    expect(task?.abandonedRun).toMatchObject({ sessionId });
+    expect(task?.history.at(-1)).toMatchObject({
+      from: 'IN_PROGRESS',
+      to: 'IN_PROGRESS',
+      by: 'system',
+      sessionId,
+      reason: expect.stringContaining(`Session ${sessionId} abandoned: no heartbeat for 31 minutes`)
+    });
+    expect((await backend.listTasks()).items[0].abandonedRun?.sessionId).toBe(sessionId);
+    await expect(backend.heartbeat(id, sessionId)).rejects.toThrow('Session is abandoned, not running');
+
+    // Picking the task up again clears the flag
+    await backend.startRun(id);
+    expect((await backend.getTask(id))?.abandonedRun).toBeUndefined();
+  });
+
+  it('returns abandoned runs to the backlog when configured', async () => {
+    writeBoardConfig(workspaceRoot, { runTimeoutMinutes: 5, abandonedRunAction: 'backlog' });
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+    await backend.heartbeat(id, sessionId);
+
+    expect(await userStore.markAbandonedRuns(new Date(Date.now() + 4 * 60_000))).toHaveLength(0);
+    await userStore.markAbandonedRuns(new Date(Date.now() + 6 * 60_000));
+
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('BACKLOG');
+    expect(task?.abandonedRun).toBeUndefined();
+    expect(task?.history.at(-1)).toMatchObject({ from: 'IN_PROGRESS', to: 'BACKLOG', by: 'system', sessionId });
+  });
+
+  it('activates the session reserved by Run', async () => {
+    const id = await backend.createTask(taskInput());
+    const reserved = await userStore.reserveRun(id);
+    expect((await backend.getTask(id))?.status).toBe('BACKLOG');
+    expect((await userStore.reserveRun(id)).sessionId).toBe(reserved.sessionId);
+
+    expect(await backend.startRun(id, reserved.sessionId)).toBe(reserved.sessionId);
+
+    const task = await backend.getTask(id);
+    expect(task?.status).toBe('IN_PROGRESS');
+    expect(task?.runSessions).toHaveLength(1);
+    expect(task?.runSessions[0]).toMatchObject({ sessionId: reserved.sessionId, status: 'running' });
+    expect(task?.history.at(-1)?.sessionId).toBe(reserved.sessionId);
+  });
+
+  it('uses the outstanding reservation when started without a session ID', async () => {
+    const id = await backend.createTask(taskInput());
+    const reserved = await userStore.reserveRun(id);
+
+    expect(await backend.startRun(id)).toBe(reserved.sessionId);
+  });
+
+  it('refuses expired reservations', async () => {
+    const id = await backend.createTask(taskInput());
+    const reserved = await userStore.reserveRun(id, 0);
+
+    await expect(backend.startRun(id, reserved.sessionId)).rejects.toThrow('Session reservation expired');
+    expect((await backend.getTask(id))?.runSessions[0]).toMatchObject({ status: 'expired' });
+
+    const sessionId = await backend.startRun(id);
+    expect(sessionId).not.toBe(reserved.sessionId);
+    expect((await backend.getTask(id))?.runSessions.map(s => s.status)).toEqual(['expired', 'running']);
+  });
+
+  it('records the task worktree on the run session', async () => {
+    const id = await backend.createTask(taskInput());
+    const worktree = { path: path.join(workspaceRoot, 'wt'), branch: 'feat/wt', createdAt: new Date().toISOString() };
+    await userStore.setWorktree(id, worktree);
+
+    await backend.startRun(id);
+
+    const task = await backend.getTask(id);
+    expect(task?.worktree).toEqual(worktree);
+    expect(task?.runSessions[0].worktree).toEqual(worktree);
+  });
+
+  it('defaults log entries to progress', async () => {
+    const id = await backend.createTask(taskInput());
+    const sessionId = await backend.startRun(id);
+
+    expect((await backend.addLog(id, sessionId, 'Working')).type).toBe('progress');
+  });
+
+  it('fails on unknown sessions', async () => {
+    const id = await backend.createTask(taskInput());
+
+    await expect(backend.addLog(id, 'run_missing', 'Nope')).rejects.toThrow('Session not found');
+    await expect(backend.stopRun(id, 'run_missing')).rejects.toThrow('Session not found');
+  });
+
+  it('claims the highest priority backlog task', async () => {
+    await backend.createTask(taskInput({ title: 'Low task', priority: 'LOW' }));
+    const high = await backend.createTask(taskInput({ title: 'High UI', priority: 'HIGH', category: 'UI' }));
+    const api = await backend.createTask(taskInput({ title: 'API task', category: 'API' }));
+
+    expect((await backend.claimNextTask())?.task.id).toBe(high);
+    expect((await backend.claimNextTask(['API']))?.task.id).toBe(api);
+    expect(await backend.claimNextTask(['CORE'], ['HIGH'])).toBeNull();
+  });
+
+  it('starts a run session when claiming', async () => {
+    const id = await backend.createTask(taskInput());
+
+    const claim = await backend.claimNextTask();
+    expect(claim?.task.status).toBe('IN_PROGRESS');
+
+    const task = await backend.getTask(id);
+    const session = task?.runSessions.find(s => s.sessionId === claim?.sessionId);
+    expect(session?.status).toBe('running');
+    expect(session?.claimedBy).toBeTruthy();
+    expect(task?.history.at(-1)).toMatchObject({
+      to: 'IN_PROGRESS',
+      by: 'system',
+      sessionId: claim?.sessionId,
+      reason: `Claimed by ${session?.claimedBy}`
+    });
+
+    await backend.addLog(id, claim!.sessionId, 'Working on it');
+    await backend.stopRun(id, claim!.sessionId);
+    expect((await backend.getTask(id))?.status).toBe('WAITING_APPROVAL');
+    expect(await backend.claimNextTask()).toBeNull();
+  });
+
+  it('skips tasks reserved by Run when claiming', async () => {
+    const reserved = await backend.createTask(taskInput({ title: 'Reserved task', priority: 'HIGH' }));
+    const free = await backend.createTask(taskInput({ title: 'Free task', priority: 'LOW' }));
+    await userStore.reserveRun(reserved);
+
+    expect((await backend.claimNextTask())?.task.id).toBe(free);
+  });
+
+  it('never hands the same task to concurrent claims', async () => {
+    const first = await backend.createTask(taskInput({ title: 'First task' }));
+    const second = await backend.createTask(taskInput({ title: 'Second task' }));
+
+    const claims = await Promise.all([
+      backend.claimNextTask(),
+      userStore.claimNextTask(),
+      new TaskStore(workspaceRoot).claimNextTask()
+    ]);
+
+    const claimed = claims.filter(c => c !== null).map(c => c!.task.id);
+    expect(claimed.sort()).toEqual([first, second].sort());
+    expect(claims.filter(c => c === null)).toHaveLength(1);
+    for (const id of claimed) {
+      expect((await backend.getTask(id))?.runSessions.filter(s => s.status === 'running')).toHaveLength(1);
+    }
+  });
+
+  it('skips blocked tasks when claiming and refuses to start them', async () => {
+    const blocker = await backend.createTask(taskInput({ title: 'Blocker task', priority: 'LOW' }));
+    const blocked = await backend.createTask(taskInput({
+      title: 'Blocked task',
+      priority: 'HIGH',
+      blockedBy: [blocker]
+    }));
+
+    expect((await backend.getTask(blocker))?.blocks).toEqual([blocked]);
+    expect((await backend.listTasks({ search: 'Blocked' })).items[0].blockers).toEqual([
+      { id: blocker, title: 'Blocker task' }
+    ]);
+    expect((await backend.claimNextTask())?.task.id).toBe(blocker);
+    await expect(backend.startRun(blocked)).rejects.toThrow('Task is blocked by: Blocker task');
+
+    await userStore.updateStatus({ id: blocker, status: 'FINISHED', by: 'user' });
+
+    expect((await backend.claimNextTask())?.task.id).toBe(blocked);
+    expect((await backend.getTask(blocked))?.status).toBe('IN_PROGRESS');
+  });
+
+  it('rejects unknown, self and cyclic dependencies', async () => {
+    const first = await backend.createTask(taskInput({ title: 'First task' }));
+    const second = await backend.createTask(taskInput({ title: 'Second task', blockedBy: [first] }));
+
+    await expect(backend.createTask(taskInput({ blockedBy: ['missing'] }))).rejects.toThrow(
+      'Blocking task not found: missing'
+    );
+    await expect(backend.updateTask(first, { blockedBy: [first] })).rejects.toThrow(
+      'Task cannot block itself'
+    );
+    await expect(backend.updateTask(first, { blockedBy: [second] })).rejects.toThrow(
+      'Dependency would create a cycle'
+    );
+  });
+
+  it('tracks checklist items and their progress', async () => {
+    const id = await backend.createTask(taskInput({ checklist: ['Write tests', 'Update README'] }));
+    const [first, second] = (await backend.getTask(id))!.checklist!;
+    expect(first).toMatchObject({ text: 'Write tests', done: false });
+
+    const added = await backend.addChecklistItem(id, 'Ship it');
+    await backend.setChecklistItem(id, first.id, true);
+    const ticked = await backend.setChecklistItem(id, second.id, true);
+    expect(ticked).toMatchObject({ done: true, completedBy: 'agent' });
+
+    const unticked = await backend.setChecklistItem(id, second.id, false);
+    expect(unticked.completedBy).toBeUndefined();
+
+    const summary = (await backend.listTasks()).items[0];
+    expect(summary.checklistProgress).toEqual({ done: 1, total: 3 });
+    expect((await backend.getTask(id))!.checklist!.map(i => i.id)).toEqual([first.id, second.id, added.id]);
+
+    await expect(backend.setChecklistItem(id, 'item_missing', true)).rejects.toThrow(
+      'Checklist item not found'
+    );
+    await expect(backend.addChecklistItem(id, '  ')).rejects.toThrow('Checklist item text is required');
+  });
+
+  it('validates categories, priorities and statuses against the board config', async () => {
+    await expect(backend.createTask(taskInput({ category: 'FOO' }))).rejects.toThrow('Unknown category: FOO');
+
+    writeBoardConfig(workspaceRoot, {
+      categories: ['INFRA', 'DOCS', 'TEST'],
+      priorities: ['P0', 'P1'],
+      columns: ['BACKLOG', 'IN_PROGRESS', 'QA', 'WAITING_APPROVAL', 'FINISHED']
+    });
+
+    await expect(backend.createTask(taskInput())).rejects.toThrow('Unknown category: CORE');
+    const p1 = await backend.createTask(taskInput({ title: 'Docs task', category: 'DOCS', priority: 'P1' }));
+    const p0 = await backend.createTask(taskInput({ title: 'Infra task', category: 'INFRA', priority: 'P0' }));
+    expect((await backend.listTasks()).items.map(t => t.id)).toEqual([p0, p1]);
+
+    await userStore.updateStatus({ id: p0, status: 'QA', by: 'user' });
+    expect((await backend.getTask(p0))?.status).toBe('QA');
+    await expect(backend.updateStatus({ id: p0, status: 'LIMBO' })).rejects.toThrow(
+      'Unknown status: LIMBO'
+    );
+  });
+
+  it('keeps inverse links in sync when dependencies change', async () => {
+    const first = await backend.createTask(taskInput({ title: 'First task' }));
+    const second = await backend.createTask(taskInput({ title: 'Second task' }));
+    const dependent = await backend.createTask(taskInput({ title: 'Dependent task', blockedBy: [first] }));
+
+    await backend.updateTask(dependent, { blockedBy: [second] });
+
+    expect((await backend.getTask(first))?.blocks).toEqual([]);
+    expect((await backend.getTask(second))?.blocks).toEqual([dependent]);
+    expect((await backend.getTask(dependent))?.blockedBy).toEqual([second]);
+  });
+});
+
+describe('kanban.createTaskFromContext', () => {
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('stores acceptance criteria as a checklist instead of description markdown', async () => {
+    const client = await connectClient(workspaceRoot);
+
+    const result = await client.callTool({
+      name: 'kanban.createTaskFromContext',
+      arguments: {
+        title: 'Add dark mode',
+        description: 'Toggle in settings',
+        category: 'UI',
+        priority: 'HIGH',
+        acceptanceCriteria: ['Toggle persists', 'Respects OS theme']
+      }
+    });
+    const { id } = JSON.parse((result.content as { text: string }[])[0].text);
+    const task = await new TaskStore(workspaceRoot).getTask(id);
+
+    expect(task?.description).toBe('Toggle in settings');
+    expect(task?.checklist?.map(i => [i.text, i.done])).toEqual([
+      ['Toggle persists', false],
+      ['Respects OS theme', false]
+    ]);
+
+    await client.close();
+  });
+
+  it('names a requested branch from the project template', async () => {
+    const client = await connectClient(workspaceRoot);
+    writeBoardConfig(workspaceRoot, { branchTemplate: '{category}/{slug}' });
+
+    const create = async () => {
+      const result = await client.callTool({
+        name: 'kanban.createTaskFromContext',
+        arguments: { title: 'Fix "Ünïcode" / paths', category: 'API', priority: 'LOW', createBranch: true }
+      });
+      return JSON.parse((result.content as { text: string }[])[0].text).task.branchTarget;
+    };
+
+    expect(await create()).toEqual({ type: 'new', name: 'api/fix-unicode-paths' });
+    expect(await create()).toEqual({ type: 'new', name: 'api/fix-unicode-paths-2' });
+
+    await client.close();
+  });
+
+  it('rejects an agent-supplied branch name that is not a valid ref', async () => {
+    const client = await connectClient(workspaceRoot);
+
+    const result = await client.callTool({
+      name: 'kanban.createTaskFromContext',
+      arguments: {
+        title: 'Sneaky branch',
+        category: 'CORE',
+        priority: 'LOW',
+        branchName: 'x; rm -rf ~'
+      }
+    });
+
+    expect(result.isError).toBe(true);
+    expect((result.content as { text: string }[])[0].text).toContain('Invalid branch name');
+    expect((await new TaskStore(workspaceRoot).listTasks()).items).toHaveLength(0);
+
+    await client.close();
+  });
+});
+
+describe('tool schemas', () => {
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    new TaskStore(workspaceRoot);
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('generates enum options from the board config', async () => {
+    writeBoardConfig(workspaceRoot, {
+      categories: ['INFRA', 'DOCS'],
+      columns: ['BACKLOG', 'IN_PROGRESS', 'QA', 'WAITING_APPROVAL', 'FINISHED']
+    });
+    const client = await connectClient(workspaceRoot);
+
+    const { tools } = await client.listTools();
+    const createTask = tools.find(t => t.name === 'kanban.createTask')!;
+    const updateStatus = tools.find(t => t.name === 'kanban.updateStatus')!;
+
+    type EnumProperties = Record<string, { enum: string[] }>;
+    expect((createTask.inputSchema.properties as EnumProperties).category.enum).toEqual(['INFRA', 'DOCS']);
+    expect((createTask.inputSchema.properties as EnumProperties).priority.enum).toEqual(['HIGH', 'MEDIUM', 'LOW']);
+    expect((updateStatus.inputSchema.properties as EnumProperties).status.enum).toContain('QA');
+
+    await client.close();
+  });
+});
+
+describe('kanban.updateStatus', () => {
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('acts as agent and refuses callers claiming to be a user', async () => {
+    const task = await new TaskStore(workspaceRoot).createTask(taskInput());
+    const client = await connectClient(workspaceRoot);
+
+    const claimed = await client.callTool({
+      name: 'kanban.updateStatus',
+      arguments: { id: task.id, status: 'FINISHED', by: 'user' }
+    });
+    expect(claimed.isError).toBe(true);
+    expect(JSON.parse((claimed.content as { text: string }[])[0].text)).toMatchObject({
+      code: 'INVALID_ARGUMENTS',
+      issues: [{ path: 'by', message: 'Unknown by: user (expected one of agent)' }]
+    });
+
+    const result = await client.callTool({
+      name: 'kanban.updateStatus',
+      arguments: { id: task.id, status: 'FINISHED' }
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as { text: string }[])[0].text)).toEqual({
+      error: 'Transition BACKLOG → FINISHED is not allowed for agent (allowed: IN_PROGRESS)',
+      code: 'TRANSITION_REJECTED',
+      from: 'BACKLOG',
+      to: 'FINISHED',
+      by: 'agent',
+      allowed: ['IN_PROGRESS']
+    });
+
+    await client.close();
+  });
+});
+
+describe('kanban.setChecklistItem', () => {
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('records ticks as the agent even when the caller claims to be a user', async () => {
+    const task = await new TaskStore(workspaceRoot).createTask(taskInput({ checklist: ['Cover every tool'] }));
+    const client = await connectClient(workspaceRoot);
+
+    const { tools } = await client.listTools();
+    expect(tools.find(t => t.name === 'kanban.setChecklistItem')?.inputSchema.properties).not.toHaveProperty('by');
+
+    await client.callTool({
+      name: 'kanban.setChecklistItem',
+      arguments: { id: task.id, itemId: task.checklist![0].id, done: true, by: 'user' }
+    });
+    const [item] = (await new TaskStore(workspaceRoot).getTask(task.id))!.checklist!;
+    expect(item).toMatchObject({ done: true, completedBy: 'agent' });
+
+    await client.close();
+  });
+});
+
+describe('kanban.claimNextTask', () => {
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('records the agent name, falling back to the client name', async () => {
+    const store = new TaskStore(workspaceRoot);
+    await store.createTask(taskInput({ title: 'First task' }));
+    await store.createTask(taskInput({ title: 'Second task' }));
+    const client = await connectClient(workspaceRoot);
+
+    const claimedBy = async (args: Record<string, unknown>) => {
+      const result = await client.callTool({ name: 'kanban.claimNextTask', arguments: args });
+      const { task, sessionId } = JSON.parse((result.content as { text: string }[])[0].text);
+      return task.runSessions.find((s: RunSession) => s.sessionId === sessionId).claimedBy;
+    };
+
+    expect(await claimedBy({ agent: 'planner-1' })).toBe('planner-1');
+    expect(await claimedBy({})).toBe('kanban-test');
+
+    await client.close();
+  });
+});
+
+describe('multiple projects', () => {
+  let parent: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    parent = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    const roots = ['web', 'api'].map(name => path.join(parent, name));
+    roots.forEach(root => fs.mkdirSync(path.join(root, '.cursor-kanban'), { recursive: true }));
+    writeBoardConfig(roots[1], { categories: [{ id: 'ENDPOINT', label: 'Endpoint', color: '#000000' }] });
+
+    client = new Client({ name: 'kanban-test', version: '0.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([
+      createKanbanServer(ProjectSet.fromRoots(roots)).connect(serverTransport),
+      client.connect(clientTransport)
+    ]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(parent, { recursive: true, force: true });
+  });
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return { isError: result.isError, body: JSON.parse((result.content as { text: string }[])[0].text) };
+  };
+
+  it('lists the projects and adds a project argument to every other tool', async () => {
+    const { body } = await call('kanban.listProjects');
+    expect(body).toEqual([
+      { id: 'web', name: 'web', path: path.join(parent, 'web'), default: true },
+      { id: 'api', name: 'api', path: path.join(parent, 'api'), default: false }
+    ]);
+
+    const { tools } = await client.listTools();
+    for (const tool of tools.filter(t => t.name !== 'kanban.listProjects')) {
+      expect(tool.inputSchema.properties?.project).toMatchObject({ type: 'string' });
+    }
+    const createTask = tools.find(t => t.name === 'kanban.createTask')!;
+    expect((createTask.inputSchema.properties?.category as { enum: string[] }).enum).toEqual(['CORE', 'UI', 'API', 'ENDPOINT']);
+  });
+
+  it('acts on the named project and defaults to the first', async () => {
+    const created = await call('kanban.createTask', { ...taskInput({ category: 'ENDPOINT' }), project: 'api' });
+    expect(created.isError).toBeFalsy();
+
+    expect((await call('kanban.listTasks', { project: 'api' })).body.items.map((t: TaskSummary) => t.id)).toEqual([created.body.id]);
+    expect((await call('kanban.listTasks')).body.items).toEqual([]);
+    expect((await call('kanban.getTask', { id: created.body.id, project: path.join(parent, 'api') })).body.title).toBe('Write the docs');
+
+    // Each board validates against its own config
+    const rejected = await call('kanban.createTask', { ...taskInput({ category: 'ENDPOINT' }) });
+    expect(rejected.isError).toBe(true);
+    expect(rejected.body).toEqual({
+      error: 'Unknown category: ENDPOINT (expected one of CORE, UI, API)',
+      code: 'UNKNOWN_OPTION',
+      expected: ['CORE', 'UI', 'API']
+    });
+  });
+
+  it('serves resources and prompts for the named project', async () => {
+    const { id } = (await call('kanban.createTask', { ...taskInput({ title: 'Add an endpoint', category: 'ENDPOINT' }), project: 'api' })).body;
+
+    const { resources } = await client.listResources();
+    expect(resources.map(r => r.uri)).toEqual(['kanban://board', 'kanban://api/board', `kanban://api/tasks/${id}`]);
+    const { contents } = await client.readResource({ uri: `kanban://api/tasks/${id}` });
+    expect(JSON.parse((contents[0] as { text: string }).text)).toMatchObject({ id, title: 'Add an endpoint' });
+    await expect(client.readResource({ uri: `kanban://tasks/${id}` })).rejects.toThrow('Resource not found');
+    await expect(client.readResource({ uri: 'kanban://mobile/board' })).rejects.toThrow('Resource not found');
+
+    const { messages } = await client.getPrompt({ name: 'execute-task', arguments: { id, project: 'api' } });
+    const text = (messages[0].content as { text: string }).text;
+    expect(text).toContain('**Project:** api');
+    expect(text).toContain('pass `project: "api"` to every kanban tool call');
+    await expect(client.getPrompt({ name: 'execute-task', arguments: { id } })).rejects.toThrow('Task not found');
+    await expect(client.getPrompt({ name: 'execute-task', arguments: { id, project: 'mobile' } })).rejects.toThrow('Unknown project "mobile"');
+  });
+
+  it('rejects unknown projects', async () => {
+    const { isError, body } = await call('kanban.listTasks', { project: 'mobile' });
+    expect(isError).toBe(true);
+    expect(body).toEqual({
+      error: 'Unknown project "mobile". Available projects: web, api',
+      code: 'UNKNOWN_PROJECT',
+      available: ['web', 'api']
+    });
+  });
+});
+
+describe('argument validation', () => {
+  let workspaceRoot: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    client = await connectClient(workspaceRoot);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    return { isError: result.isError, body: JSON.parse((result.content as { text: string }[])[0].text) };
+  };
+
+  it('rejects arguments that do not match the tool schema without saving anything', async () => {
+    const { isError, body } = await call('kanban.createTask', { title: 'Write the docs', category: 'FOO', priority: 'MEDIUM' });
+
+    expect(isError).toBe(true);
+    expect(body).toEqual({
+      error: 'Invalid arguments for kanban.createTask: branchTarget is required; Unknown category: FOO (expected one of CORE, UI, API)',
+      code: 'INVALID_ARGUMENTS',
+      issues: [
+        { path: 'branchTarget', message: 'branchTarget is required' },
+        { path: 'category', message: 'Unknown category: FOO (expected one of CORE, UI, API)' }
+      ]
+    });
+    expect((await new TaskStore(workspaceRoot).listTasks()).items).toEqual([]);
+  });
+
+  it('checks nested objects, array items and number types', async () => {
+    const { body } = await call('kanban.listTasks', { status: ['BACKLOG', 'DONE'], limit: '10' });
+    expect(body.issues).toEqual([
+      { path: 'status[1]', message: 'Unknown status[1]: DONE (expected one of BACKLOG, IN_PROGRESS, WAITING_APPROVAL, FINISHED)' },
+      { path: 'limit', message: 'limit must be a number (got "10")' }
+    ]);
+
+    const nested = await call('kanban.createTask', { ...taskInput({ branchTarget: { type: 'feature' as 'new' } }) });
+    expect(nested.body.issues).toEqual([
+      { path: 'branchTarget.type', message: 'Unknown branchTarget.type: feature (expected one of current, new)' }
+    ]);
+  });
+
+  it('requires a branch name for new branches', async () => {
+    const { body } = await call('kanban.createTask', { ...taskInput({ branchTarget: { type: 'new' } }) });
+    expect(body).toMatchObject({
+      code: 'INVALID_ARGUMENTS',
+      issues: [{ path: 'branchTarget.name', message: 'branchTarget.name is required when branchTarget.type is "new"' }]
+    });
+
+    const { id } = (await call('kanban.createTask', { ...taskInput() })).body;
+    const update = await call('kanban.updateTask', { id, branchTarget: { type: 'new', name: ' ' } });
+    expect(update.body.code).toBe('INVALID_ARGUMENTS');
+  });
+
+  it('returns codes for unknown tools, missing tasks and refused operations', async () => {
+    expect((await call('kanban.deleteEverything')).body).toEqual({
+      error: 'Unknown tool: kanban.deleteEverything',
+      code: 'UNKNOWN_TOOL'
+    });
+    expect((await call('kanban.getTask', { id: 'missing' })).body).toEqual({ error: 'Task not found', code: 'TASK_NOT_FOUND' });
+    expect((await call('kanban.startRun', { id: 'missing' })).body).toEqual({ error: 'Task not found', code: 'TASK_NOT_FOUND' });
+  });
+
+  it('returns a distinct code for each way the task store refuses a run', async () => {
+    const blocker = (await call('kanban.createTask', { ...taskInput({ title: 'Blocker task' }) })).body.id;
+    const { id } = (await call('kanban.createTask', { ...taskInput({ blockedBy: [blocker] }) })).body;
+
+    expect((await call('kanban.startRun', { id })).body).toEqual({
+      error: 'Task is blocked by: Blocker task',
+      code: 'TASK_BLOCKED',
+      blockedBy: [blocker]
+    });
+
+    await call('kanban.startRun', { id: blocker });
+    expect((await call('kanban.startRun', { id: blocker })).body.code).toBe('RUN_ALREADY_ACTIVE');
+    expect((await call('kanban.addLog', { id: blocker, sessionId: 'run_missing', message: 'Hello' })).body)
+      .toEqual({ error: 'Session not found', code: 'SESSION_NOT_FOUND' });
+
+    const rename = await call('kanban.updateTask', { id, branchTarget: { type: 'new', name: 'feature..docs' } });
+    expect(rename.body.code).toBe('INVALID_BRANCH_NAME');
+  });
+});
+
+describe('revision conflicts over MCP', () => {
+  let workspaceRoot: string;
+
+  beforeEach(() => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  it('returns a structured REVISION_CONFLICT error', async () => {
+    const store = new TaskStore(workspaceRoot);
+    const task = await store.createTask(taskInput());
+    await store.updateTask(task.id, { title: 'Edited by a human' });
+    const client = await connectClient(workspaceRoot);
+
+    const result = await client.callTool({
+      name: 'kanban.updateTask',
+      arguments: { id: task.id, title: 'Agent title', expectedRevision: 1 }
+    });
+
+    expect(result.isError).toBe(true);
+    expect(JSON.parse((result.content as { text: string }[])[0].text)).toEqual({
+      error: 'Task was modified by someone else (expected revision 1, current revision 2)',
+      code: 'REVISION_CONFLICT',
+      expectedRevision: 1,
+      actualRevision: 2
+    });
+
+    await client.close();
+  });
+});
+
+describe('MCP resources', () => {
+  let workspaceRoot: string;
+  let store: TaskStore;
+  let client: Client;
+
+  beforeEach(async () => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    store = new TaskStore(workspaceRoot);
+    client = await connectClient(workspaceRoot);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  const readJson = async (uri: string) => {
+    const { contents } = await client.readResource({ uri });
+    return JSON.parse((contents[0] as { text: string }).text);
+  };
+
+  it('lists the board and its tasks and reads them', async () => {
+    const task = await store.createTask(taskInput({ description: 'Cover the MCP tools' }));
+
+    const { resources } = await client.listResources();
+    expect(resources.map(r => r.uri)).toEqual(['kanban://board', `kanban://tasks/${task.id}`]);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+      'kanban://tasks/{id}',
+      'kanban://{project}/tasks/{id}',
+      'kanban://{project}/board'
+    ]);
+
+    expect(await readJson(`kanban://tasks/${task.id}`)).toMatchObject({ id: task.id, description: 'Cover the MCP tools' });
+    const board = await readJson('kanban://board');
+    expect(board.columns.map((c: { status: string }) => c.status)).toEqual(['BACKLOG', 'IN_PROGRESS', 'WAITING_APPROVAL', 'FINISHED']);
+    expect(board.columns[0].tasks).toEqual([expect.objectContaining({ id: task.id })]);
+
+    await expect(client.readResource({ uri: 'kanban://tasks/missing' })).rejects.toThrow('Resource not found');
+  });
+
+  it('notifies subscribers when someone else changes the task', async () => {
+    const task = await store.createTask(taskInput());
+    const other = await store.createTask(taskInput({ title: 'Another task' }));
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+
+    await client.subscribeResource({ uri: `kanban://tasks/${task.id}` });
+    await client.subscribeResource({ uri: 'kanban://board' });
+
+    // A second store stands in for the extension writing from another process
+    await new TaskStore(workspaceRoot).updateTask(task.id, { description: 'Changed by a human' });
+    await vi.waitFor(() => expect(updated).toEqual(expect.arrayContaining([`kanban://tasks/${task.id}`, 'kanban://board'])), { timeout: 2000 });
+
+    updated.length = 0;
+    await client.unsubscribeResource({ uri: `kanban://tasks/${task.id}` });
+    await store.updateTask(other.id, { title: 'Another task, renamed' });
+    await vi.waitFor(() => expect(updated).toContain('kanban://board'), { timeout: 2000 });
+    expect(updated).not.toContain(`kanban://tasks/${task.id}`);
+  });
+});
+
+describe('MCP prompts', () => {
+  let workspaceRoot: string;
+  let store: TaskStore;
+  let client: Client;
+
+  beforeEach(async () => {
+    workspaceRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+    store = new TaskStore(workspaceRoot);
+    client = await connectClient(workspaceRoot);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    fs.rmSync(workspaceRoot, { recursive: true, force: true });
+  });
+
+  const promptText = async (name: string, args?: Record<string, string>) => {
+    const { messages } = await client.getPrompt({ name, arguments: args });
+    return (messages[0].content as { text: string }).text;
+  };
+
+  it('lists the prompts and renders the same execution instructions as Run', async () => {
+    const task = await store.createTask(taskInput({ checklist: ['Cover every tool'] }));
+
+    const { prompts } = await client.listPrompts();
+    expect(prompts.map(p => p.name)).toEqual(['execute-task', 'plan-backlog', 'review-task']);
+
+    const text = await promptText('execute-task', { id: task.id });
+    expect(text).toBe(renderExecuteTaskPrompt(task, undefined, { runTimeoutMinutes: 30 }));
+    expect(text).toContain(`kanban.startRun({ id: "${task.id}" })`);
+    expect(text).toContain(`itemId: \`${task.checklist![0].id}\``);
+
+    await expect(client.getPrompt({ name: 'execute-task', arguments: { id: 'missing' } })).rejects.toThrow('Task not found');
+    await expect(client.getPrompt({ name: 'unknown' })).rejects.toThrow('Unknown prompt');
+  });
+
+  it('plans the backlog of one category with its dependencies', async () => {
+    const schema = await store.createTask(taskInput({ title: 'Design the schema' }));
+    const api = await store.createTask(taskInput({ title: 'Build the API', blockedBy: [schema.id] }));
+    await store.createTask(taskInput({ title: 'Fix the login bug', category: 'UI' }));
+
+    const text = await promptText('plan-backlog', { category: 'CORE' });
+    expect(text).toContain(`\`${api.id}\` **Build the API** | CORE | MEDIUM (blocked by \`${schema.id}\`)`);
+    expect(text).toContain('Design the schema');
+    expect(text).not.toContain('Fix the login bug');
+  });
+
+  it('reviews a task with the log of its last session', async () => {
+    const task = await store.createTask(taskInput());
+    const session = await store.startRun(task.id);
+    await store.addLog(task.id, session.sessionId, 'Documented every tool', 'milestone');
+    await store.stopRun(task.id, session.sessionId);
+
+    const text = await promptText('review-task', { id: task.id });
+    expect(text).toContain('**Status:** WAITING_APPROVAL');
+    expect(text).toContain('- [milestone] Documented every tool');
+    expect(text).toContain(`kanban.updateStatus({ id: "${task.id}", status: "IN_PROGRESS"`);
+  });
+});
@@ -0,0 +1,447 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  TaskStore,
+  Status,
+  Category,
+  Priority,
+  BranchTarget,
+  CreateTaskInput,
+  UpdateTaskInput,
+  TransitionError,
+  RevisionConflictError,
+  StorageCorruptionError,
+  TaskNotFoundError,
+  SessionNotFoundError,
+  TaskBlockedError,
+  RunAlreadyActiveError,
+  UnknownOptionError,
+  InvalidBranchNameError
+} from '../core';
+import { buildTools, mergeBoardConfigs } from './tools';
+import { listResources, readResource, ResourceSubscriptions, RESOURCE_TEMPLATES } from './resources';
+import { getPrompt, PROMPTS } from './prompts';
+import { ProjectSet, UnknownProjectError } from './projects';
+import { InvalidArgumentsError, validateArguments } from './validation';
+
+export interface KanbanServerOptions {
+  projectName?: string; // Shown in prompts
+}
+
+// Build an MCP server for the given boards; tools, prompts and resources default to the first one
+export function createKanbanServer(target: TaskStore | ProjectSet, options: KanbanServerOptions = {}): Server {
+  const projects = target instanceof ProjectSet ? target : new ProjectSet([target]);
+
+  const server = new Server(
+    {
+      name: 'projektieren',
+      version: '0.1.0'
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { subscribe: true },
+        prompts: {}
+      }
+    }
+  );
+
+  const subscriptions = new ResourceSubscriptions(projects, server);
+  server.onclose = () => subscriptions.close();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await listResources(projects) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [await readResource(projects, request.params.uri)] };
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    await subscriptions.subscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPTS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(projects, request.params.name, request.params.arguments, options.projectName);
+  });
+
+  // List tools handler (re-reads the board config so schema edits show up without a restart)
+  const listTools = () => {
+    const config = mergeBoardConfigs(projects.all().map(store => store.getBoardConfig()));
+    return buildTools(config, projects.list());
+  };
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: listTools() };
+  });
+
+  // Call tool handler
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
+
+    try {
+      // Arguments are checked against the schemas clients see; unknown tools fall through to the default case
+      const tool = listTools().find(t => t.name === name);
+      if (tool) {
+        validateArguments(tool, args);
+      }
+      const taskStore = projects.resolve(args?.project as string | undefined);
+
+      switch (name) {
+        case 'kanban.listProjects': {
+          const list = projects.list().map((project, i) => ({ ...project, default: i === 0 }));
+          return {
+            content: [{ type: 'text', text: JSON.stringify(list, null, 2) }]
+          };
+        }
+
+        case 'kanban.listTasks': {
+          const result = await taskStore.listTasks({
+            status: args?.status as Status[],
+            category: args?.category as Category[],
+            priority: args?.priority as Priority[],
+            search: args?.search as string,
+            limit: args?.limit as number,
+            cursor: args?.cursor as string,
+            includeArchived: args?.includeArchived as boolean
+          });
+          return {
+            content: [{ type: 'text', text: JSON.stringify(result, null, 2) }]
+          };
+        }
+
+        case 'kanban.getTask': {
+          const id = args?.id as string;
+          const task = await taskStore.getTask(id);
+          if (!task) {
+            throw new TaskNotFoundError(id);
+          }
+          return {
+            content: [{ type: 'text', text: JSON.stringify(task, null, 2) }]
+          };
+        }
+
+        case 'kanban.createTask': {
+          const input: CreateTaskInput = {
+            title: args?.title as string,
+            description: args?.description as string,
+            category: args?.category as Category,
+            priority: args?.priority as Priority,
+            branchTarget: args?.branchTarget as BranchTarget,
+            blockedBy: args?.blockedBy as string[],
+            checklist: args?.checklist as string[]
+          };
+          const task = await taskStore.createTask(input);
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ id: task.id }) }]
+          };
+        }
+
+        case 'kanban.updateTask': {
+          const data = args ?? {};
+          const updateInput: UpdateTaskInput = {};
+          if (data.title) updateInput.title = data.title as string;
+          if (data.description) updateInput.description = data.description as string;
+          if (data.category) updateInput.category = data.category as Category;
+          if (data.priority) updateInput.priority = data.priority as Priority;
+          if (data.branchTarget) updateInput.branchTarget = data.branchTarget as BranchTarget;
+          if (data.blockedBy) updateInput.blockedBy = data.blockedBy as string[];
+          if (data.expectedRevision !== undefined) updateInput.expectedRevision = data.expectedRevision as number;
+
+          const task = await taskStore.updateTask(data.id as string, updateInput);
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ ok: true, updatedAt: task.updatedAt, revision: task.revision }) }]
+          };
+        }
+
+        case 'kanban.updateStatus': {
+          const task = await taskStore.updateStatus({
+            id: args?.id as string,
+            status: args?.status as Status,
+            reason: args?.reason as string,
+            // Tool callers are agents; they may not act with user permissions
+            by: 'agent',
+            sessionId: args?.sessionId as string,
+            expectedRevision: args?.expectedRevision as number | undefined
+          });
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ ok: true, updatedAt: task.updatedAt, revision: task.revision }) }]
+          };
+        }
+
+        case 'kanban.claimNextTask': {
+          // Fall back to the connected client's name so claims are attributable
+          const agent = (args?.agent as string) || server.getClientVersion()?.name || 'agent';
+          const claim = await taskStore.claimNextTask(
+            args?.categories as string[],
+            args?.priorities as string[],
+            agent
+          );
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({ task: claim?.task ?? null, sessionId: claim?.sessionId ?? null })
+            }]
+          };
+        }
+
+        case 'kanban.startRun': {
+          const session = await taskStore.startRun(args?.id as string, args?.sessionId as string | undefined);
+          const task = await taskStore.getTask(args?.id as string);
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ sessionId: session.sessionId, task }) }]
+          };
+        }
+
+        case 'kanban.stopRun': {
+          await taskStore.stopRun(args?.id as string, args?.sessionId as string);
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ ok: true }) }]
+          };
+        }
+
+        case 'kanban.stopActiveRun': {
+          const task = await taskStore.stopActiveRun(args?.id as string);
+          const stopped = [...task.runSessions].reverse().find(s => s.status === 'stopped');
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ ok: true, sessionId: stopped?.sessionId }) }]
+          };
+        }
+
+        case 'kanban.createTaskFromContext': {
+          // Build a rich description from all the context provided
+          let fullDescription = args?.description as string || '';
+          
+          // Add related files section if provided
+          const relatedFiles = args?.relatedFiles as string[] | undefined;
+          if (relatedFiles && relatedFiles.length > 0) {
+            fullDescription += '\n\n## Related Files\n';
+            relatedFiles.forEach((file: string) => {
+              fullDescription += `- \`${file}\`\n`;
+            });
+          }
+          
+          // Add technical notes if provided
+          const technicalNotes = args?.technicalNotes as string | undefined;
+          if (technicalNotes) {
+            fullDescription += '\n\n## Technical Notes\n';
+            fullDescription += technicalNotes;
+          }
+          
+          // Determine branch target
+          const branchName = args?.branchName as string | undefined;
+          // An unnamed new branch is named by TaskStore from the project's template
+          const branchTarget: BranchTarget = branchName || args?.createBranch
+            ? { type: 'new', name: branchName }
+            : { type: 'current' };
+          
+          const input: CreateTaskInput = {
+            title: args?.title as string,
+            description: fullDescription,
+            category: args?.category as Category,
+            priority: args?.priority as Priority,
+            branchTarget,
+            blockedBy: args?.blockedBy as string[],
+            // Acceptance criteria become checklist items the agent can tick off
+            checklist: args?.acceptanceCriteria as string[]
+          };
+          
+          const task = await taskStore.createTask(input);
+          
+          return {
+            content: [{ 
+              type: 'text', 
+              text: JSON.stringify({ 
+                success: true,
+                id: task.id,
+                message: `Task "${task.title}" created successfully in BACKLOG`,
+                task: {
+                  id: task.id,
+                  title: task.title,
+                  category: task.category,
+                  priority: task.priority,
+                  branchTarget: task.branchTarget,
+                  status: task.status,
+                  checklist: task.checklist
+                }
+              }, null, 2) 
+            }]
+          };
+        }
+
+        case 'kanban.addChecklistItem': {
+          const item = await taskStore.addChecklistItem(args?.id as string, args?.text as string);
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ ok: true, item }) }]
+          };
+        }
+
+        case 'kanban.setChecklistItem': {
+          const item = await taskStore.setChecklistItem(
+            args?.id as string,
+            args?.itemId as string,
+            args?.done as boolean,
+            // Tool callers are agents; reviewers must be able to tell their claims from a user's
+            'agent'
+          );
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ ok: true, item }) }]
+          };
+        }
+
+        case 'kanban.addLog': {
+          const logEntry = await taskStore.addLog(
+            args?.id as string,
+            args?.sessionId as string,
+            args?.message as string,
+            (args?.type as 'progress' | 'milestone' | 'warning' | 'error' | 'info') || 'progress'
+          );
+          return {
+            content: [{ 
+              type: 'text', 
+              text: JSON.stringify({ 
+                ok: true, 
+                log: logEntry,
+                message: 'Log entry added successfully'
+              }) 
+            }]
+          };
+        }
+
+        case 'kanban.heartbeat': {
+          const session = await taskStore.heartbeat(args?.id as string, args?.sessionId as string);
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ ok: true, lastSeenAt: session.lastSeenAt }) }]
+          };
+        }
+
+        default:
+          return {
+            content: [{ type: 'text', text: JSON.stringify({ error: `Unknown tool: ${name}`, code: 'UNKNOWN_TOOL' }) }],
+            isError: true
+          };
+      }
+    } catch (error) {
+      if (error instanceof InvalidArgumentsError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: error.message, code: error.code, issues: error.issues })
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof TransitionError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message,
+              code: error.code,
+              from: error.from,
+              to: error.to,
+              by: error.by,
+              allowed: error.allowed
+            })
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof RevisionConflictError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              error: error.message,
+              code: error.code,
+              expectedRevision: error.expectedRevision,
+              actualRevision: error.actualRevision
+            })
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof UnknownProjectError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: error.message, code: error.code, available: error.available })
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof StorageCorruptionError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: error.message, code: error.code, file: error.file })
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof UnknownOptionError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: error.message, code: error.code, expected: error.expected })
+          }],
+          isError: true
+        };
+      }
+      if (error instanceof TaskBlockedError) {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ error: error.message, code: error.code, blockedBy: error.blockedBy })
+          }],
+          isError: true
+        };
+      }
+      if (
+        error instanceof TaskNotFoundError
+        || error instanceof SessionNotFoundError
+        || error instanceof RunAlreadyActiveError
+        || error instanceof InvalidBranchNameError
+      ) {
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ error: error.message, code: error.code }) }],
+          isError: true
+        };
+      }
+      // Anything else was refused by the task store (a bad checklist item, a dependency cycle, ...)
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({ error: error instanceof Error ? error.message : String(error), code: 'OPERATION_FAILED' })
+        }],
+        isError: true
+      };
+    }
+  });
+
+  return server;
+}
@@ -0,0 +1,55 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { discoverProjects, ProjectSet, UnknownProjectError } from './projects';
+
+describe('discoverProjects', () => {
+  let parent: string;
+
+  beforeEach(() => {
+    parent = fs.mkdtempSync(path.join(os.tmpdir(), 'kanban-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(parent, { recursive: true, force: true });
+  });
+
+  const board = (...segments: string[]) => {
+    fs.mkdirSync(path.join(parent, ...segments, '.cursor-kanban'), { recursive: true });
+    return path.join(parent, ...segments);
+  };
+
+  it('finds boards in the parent and its packages, skipping dependencies', () => {
+    const root = board();
+    const api = board('packages', 'api');
+    const web = board('apps', 'web');
+    board('node_modules', 'some-lib');
+
+    expect(discoverProjects(parent)).toEqual([root, web, api]);
+  });
+
+  it('stops at the depth limit', () => {
+    board('a', 'b', 'c');
+    expect(discoverProjects(parent, 2)).toEqual([]);
+    expect(discoverProjects(parent, 3)).toEqual([path.join(parent, 'a', 'b', 'c')]);
+  });
+});
+
+describe('ProjectSet', () => {
+  it('names projects after their folder and suffixes repeated names', () => {
+    const projects = ProjectSet.fromRoots(['/repo/packages/api', '/repo/services/api', '/repo/packages/api']);
+    expect(projects.list()).toEqual([
+      { id: 'api', name: 'api', path: '/repo/packages/api' },
+      { id: 'api-2', name: 'api', path: '/repo/services/api' }
+    ]);
+  });
+
+  it('resolves projects by ID or path and defaults to the first', () => {
+    const projects = ProjectSet.fromRoots(['/repo/web', '/repo/api']);
+    expect(projects.resolve()).toBe(projects.default);
+    expect(projects.resolve('api')).toBe(projects.resolve('/repo/api'));
+    expect(projects.resolve('api')).not.toBe(projects.default);
+    expect(() => projects.resolve('mobile')).toThrow(UnknownProjectError);
+  });
+});
@@ -0,0 +1,111 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Project, TaskStore } from '../core';
+
+// Directories never worth descending into when looking for boards
+const SKIPPED_DIRS = new Set(['node_modules', '.git', '.cursor-kanban', 'dist', 'out']);
+const DISCOVERY_DEPTH = 4;
+
+export class UnknownProjectError extends Error {
+  readonly code = 'UNKNOWN_PROJECT';
+
+  constructor(
+    readonly project: string,
+    readonly available: string[]
+  ) {
+    super(`Unknown project "${project}". Available projects: ${available.join(', ')}`);
+    this.name = 'UnknownProjectError';
+  }
+}
+
+// The boards one MCP server serves. The first one is used when a call doesn't name a project.
+export class ProjectSet {
+  private readonly projects: (Project & { taskStore: TaskStore })[] = [];
+
+  constructor(taskStores: TaskStore[]) {
+    if (taskStores.length === 0) {
+      throw new Error('At least one project root is required');
+    }
+    for (const taskStore of taskStores) {
+      const projectPath = path.resolve(taskStore.workspaceRoot);
+      if (this.projects.some(p => p.path === projectPath)) {
+        continue;
+      }
+      const name = path.basename(projectPath) || projectPath;
+      this.projects.push({ id: this.uniqueId(name), name, path: projectPath, taskStore });
+    }
+  }
+
+  static fromRoots(roots: string[]): ProjectSet {
+    return new ProjectSet(roots.map(root => new TaskStore(root)));
+  }
+
+  get default(): TaskStore {
+    return this.projects[0].taskStore;
+  }
+
+  list(): Project[] {
+    return this.projects.map(({ id, name, path }) => ({ id, name, path }));
+  }
+
+  all(): TaskStore[] {
+    return this.projects.map(p => p.taskStore);
+  }
+
+  // Accepts a project ID or its path; no project means the default one
+  resolve(project?: string): TaskStore {
+    return this.find(project).taskStore;
+  }
+
+  // The ID, name and path of the project resolve() picks
+  describe(project?: string): Project {
+    const { id, name, path } = this.find(project);
+    return { id, name, path };
+  }
+
+  private find(project?: string): Project & { taskStore: TaskStore } {
+    if (project === undefined || project === '') {
+      return this.projects[0];
+    }
+    const match = this.projects.find(p => p.id === project || p.path === path.resolve(project));
+    if (!match) {
+      throw new UnknownProjectError(project, this.projects.map(p => p.id));
+    }
+    return match;
+  }
+
+  // Folder names repeat in monorepos (packages/api, services/api), so later ones get a suffix
+  private uniqueId(name: string): string {
+    let id = name;
+    for (let n = 2; this.projects.some(p => p.id === id); n++) {
+      id = `${name}-${n}`;
+    }
+    return id;
+  }
+}
+
+// Directories under parent (including parent itself) that have a .cursor-kanban board
+export function discoverProjects(parent: string, depth = DISCOVERY_DEPTH): string[] {
+  const found: string[] = [];
+  const visit = (dir: string, remaining: number) => {
+    if (fs.existsSync(path.join(dir, '.cursor-kanban'))) {
+      found.push(dir);
+    }
+    if (remaining === 0) {
+      return;
+    }
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(dir, { withFileTypes: true });
+    } catch {
+      return; // Unreadable directories have no boards we can use
+    }
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.isDirectory() && !SKIPPED_DIRS.has(entry.name)) {
+        visit(path.join(dir, entry.name), remaining - 1);
+      }
+    }
+  };
+  visit(path.resolve(parent), depth);
+  return found;
+}
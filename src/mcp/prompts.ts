@@ -0,0 +1,106 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from '@modelcontextprotocol/sdk/types.js';
+import {
+  Project,
+  TaskStore,
+  renderExecuteTaskPrompt,
+  renderPlanBacklogPrompt,
+  renderReviewTaskPrompt
+} from '../core';
+import { ProjectSet, UnknownProjectError } from './projects';
+
+const PROJECT_ARGUMENT = { name: 'project', description: 'Project ID or path (default: the first project)', required: false };
+
+export const PROMPTS: Prompt[] = [
+  {
+    name: 'execute-task',
+    description: 'Instructions for an agent to run a task from start to review, the same ones Run copies in the editor',
+    arguments: [
+      { name: 'id', description: 'Task ID', required: true },
+      PROJECT_ARGUMENT
+    ]
+  },
+  {
+    name: 'plan-backlog',
+    description: 'Instructions for an agent to order the backlog, record dependencies and refine tasks',
+    arguments: [
+      { name: 'category', description: 'Only plan tasks in this category', required: false },
+      PROJECT_ARGUMENT
+    ]
+  },
+  {
+    name: 'review-task',
+    description: 'Instructions for an agent to review the work of a task waiting for approval',
+    arguments: [
+      { name: 'id', description: 'Task ID', required: true },
+      PROJECT_ARGUMENT
+    ]
+  }
+];
+
+// projectName is shown for the default project; other projects show their own name and ID
+export async function getPrompt(
+  projects: ProjectSet,
+  name: string,
+  args: Record<string, string> = {},
+  projectName?: string
+): Promise<GetPromptResult> {
+  let project: Project;
+  let taskStore: TaskStore;
+  try {
+    project = projects.describe(args.project);
+    taskStore = projects.resolve(args.project);
+  } catch (error) {
+    if (error instanceof UnknownProjectError) {
+      throw new McpError(ErrorCode.InvalidParams, error.message);
+    }
+    throw error;
+  }
+  const isDefault = taskStore === projects.default;
+  const context = {
+    projectName: isDefault ? projectName : project.name,
+    projectId: isDefault ? undefined : project.id,
+    runTimeoutMinutes: taskStore.getBoardConfig().runTimeoutMinutes
+  };
+
+  switch (name) {
+    case 'execute-task': {
+      const task = await requireTask(taskStore, args.id);
+      return message(`Execute task: ${task.title}`, renderExecuteTaskPrompt(task, undefined, context));
+    }
+
+    case 'plan-backlog': {
+      const { items } = await taskStore.listTasks({
+        status: ['BACKLOG'],
+        category: args.category ? [args.category] : undefined,
+        limit: Number.MAX_SAFE_INTEGER
+      });
+      return message('Plan the backlog', renderPlanBacklogPrompt(items, context));
+    }
+
+    case 'review-task': {
+      const task = await requireTask(taskStore, args.id);
+      return message(`Review task: ${task.title}`, renderReviewTaskPrompt(task, context));
+    }
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+async function requireTask(taskStore: TaskStore, id: string | undefined) {
+  if (!id) {
+    throw new McpError(ErrorCode.InvalidParams, 'Missing required argument: id');
+  }
+  const task = await taskStore.getTask(id);
+  if (!task) {
+    throw new McpError(ErrorCode.InvalidParams, `Task not found: ${id}`);
+  }
+  return task;
+}
+
+function message(description: string, text: string): GetPromptResult {
+  return {
+    description,
+    messages: [{ role: 'user', content: { type: 'text', text } }]
+  };
+}
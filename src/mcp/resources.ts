@@ -0,0 +1,180 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpError, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { TaskStore } from '../core';
+import { ProjectSet } from './projects';
+
+// kanban://board and kanban://tasks/<id> are the default project's; other projects put their ID
+// first, e.g. kanban://api/tasks/<id>
+const SCHEME = 'kanban://';
+const BOARD_PATH = 'board';
+const TASK_PATH_PREFIX = 'tasks/';
+
+// JSON-RPC code the MCP spec uses for unknown resources
+const RESOURCE_NOT_FOUND = -32002;
+
+// Subscribed resources are re-read this long after the last file change, so one write is one check
+const CHANGE_DEBOUNCE_MS = 100;
+
+export function boardUri(project?: string): string {
+  return SCHEME + projectPrefix(project) + BOARD_PATH;
+}
+
+export function taskUri(id: string, project?: string): string {
+  return SCHEME + projectPrefix(project) + TASK_PATH_PREFIX + encodeURIComponent(id);
+}
+
+function projectPrefix(project?: string): string {
+  return project ? `${encodeURIComponent(project)}/` : '';
+}
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${SCHEME}${TASK_PATH_PREFIX}{id}`,
+    name: 'Task',
+    description: 'A task with its description, checklist, history and run sessions',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${SCHEME}{project}/${TASK_PATH_PREFIX}{id}`,
+    name: 'Task in a project',
+    description: 'A task on the board of the project with that ID (see kanban.listProjects)',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: `${SCHEME}{project}/${BOARD_PATH}`,
+    name: 'Board of a project',
+    description: 'Columns with summaries of the tasks in them, for the project with that ID',
+    mimeType: 'application/json'
+  }
+];
+
+// Every project's board plus every task on it
+export async function listResources(projects: ProjectSet): Promise<Resource[]> {
+  const resources: Resource[] = [];
+  for (const [i, project] of projects.list().entries()) {
+    const qualifier = i === 0 ? undefined : project.id;
+    const { items } = await projects.resolve(project.id).listTasks({ limit: Number.MAX_SAFE_INTEGER });
+    resources.push(
+      {
+        uri: boardUri(qualifier),
+        name: qualifier ? `Board of ${project.name}` : 'Board',
+        description: 'Columns with summaries of the tasks in them',
+        mimeType: 'application/json'
+      },
+      ...items.map(task => ({
+        uri: taskUri(task.id, qualifier),
+        name: task.title,
+        description: `${task.status} · ${task.category} · ${task.priority}`,
+        mimeType: 'application/json'
+      }))
+    );
+  }
+  return resources;
+}
+
+// The store a URI points into and the path on its board, or null for anything that isn't ours
+function locate(projects: ProjectSet, uri: string): { taskStore: TaskStore; path: string } | null {
+  if (!uri.startsWith(SCHEME)) {
+    return null;
+  }
+  const rest = uri.slice(SCHEME.length);
+  if (rest === BOARD_PATH || rest.startsWith(TASK_PATH_PREFIX)) {
+    return { taskStore: projects.default, path: rest };
+  }
+  const slash = rest.indexOf('/');
+  if (slash === -1) {
+    return null;
+  }
+  try {
+    return { taskStore: projects.resolve(decodeURIComponent(rest.slice(0, slash))), path: rest.slice(slash + 1) };
+  } catch {
+    return null; // Unknown project
+  }
+}
+
+export async function readResource(projects: ProjectSet, uri: string): Promise<{ uri: string; mimeType: string; text: string }> {
+  const location = locate(projects, uri);
+  if (!location) {
+    throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+  }
+  const { taskStore, path } = location;
+
+  if (path === BOARD_PATH) {
+    const config = taskStore.getBoardConfig();
+    const columns = await Promise.all(config.columns.map(async column => ({
+      status: column.id,
+      label: column.label,
+      tasks: (await taskStore.listTasks({ status: [column.id] })).items
+    })));
+    return { uri, mimeType: 'application/json', text: JSON.stringify({ columns }, null, 2) };
+  }
+
+  if (path.startsWith(TASK_PATH_PREFIX)) {
+    const id = decodeURIComponent(path.slice(TASK_PATH_PREFIX.length));
+    const task = await taskStore.getTask(id);
+    if (task) {
+      return { uri, mimeType: 'application/json', text: JSON.stringify(task, null, 2) };
+    }
+  }
+
+  throw new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}`);
+}
+
+// Tracks the client's subscriptions and sends notifications/resources/updated when the content
+// behind one changes, including edits made by the extension or another MCP server
+export class ResourceSubscriptions {
+  private readonly contents = new Map<string, string>(); // Last content sent per subscribed URI
+  private readonly watchers = new Map<TaskStore, () => void>(); // Stop functions of the watched boards
+  private debounce?: NodeJS.Timeout;
+  private checking?: Promise<void>;
+
+  constructor(
+    private readonly projects: ProjectSet,
+    private readonly server: Server
+  ) {}
+
+  async subscribe(uri: string): Promise<void> {
+    this.contents.set(uri, (await readResource(this.projects, uri)).text);
+    const { taskStore } = locate(this.projects, uri)!;
+    if (!this.watchers.has(taskStore)) {
+      this.watchers.set(taskStore, taskStore.watch(() => {
+        clearTimeout(this.debounce);
+        this.debounce = setTimeout(() => this.check(), CHANGE_DEBOUNCE_MS);
+      }));
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.contents.delete(uri);
+    if (this.contents.size === 0) {
+      this.close();
+    }
+  }
+
+  close(): void {
+    clearTimeout(this.debounce);
+    this.watchers.forEach(stop => stop());
+    this.watchers.clear();
+  }
+
+  // Checks run one at a time; a change during a check is picked up by chaining another
+  private check(): Promise<void> {
+    this.checking = (this.checking ?? Promise.resolve()).then(async () => {
+      for (const [uri, previous] of this.contents) {
+        let current: string;
+        try {
+          current = (await readResource(this.projects, uri)).text;
+        } catch {
+          current = ''; // Deleted or archived, or unreadable mid-edit; either way the client should look
+        }
+        if (current !== previous && this.contents.has(uri)) {
+          this.contents.set(uri, current);
+          await this.server.sendResourceUpdated({ uri });
+        }
+      }
+    }).catch(() => {
+      // The client went away; close() follows
+    });
+    return this.checking;
+  }
+}
@@ -0,0 +1,460 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { BoardConfig, BoardOption, Project } from '../core';
+
+// Define MCP tools, with enum options generated from the project's board config.
+// Every tool but listProjects takes a project argument naming one of the given projects.
+export function buildTools(config: BoardConfig, projects: Project[]): Tool[] {
+  const statuses = config.columns.map(c => c.id);
+  const categories = config.categories.map(c => c.id);
+  const priorities = config.priorities.map(p => p.id);
+
+  const tools: Tool[] = [
+    {
+      name: 'kanban.listTasks',
+      description: 'List tasks from the Kanban board with optional filters',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          status: {
+            type: 'array',
+            items: { type: 'string', enum: statuses },
+            description: 'Filter by status'
+          },
+          category: {
+            type: 'array',
+            items: { type: 'string', enum: categories },
+            description: 'Filter by category'
+          },
+          priority: {
+            type: 'array',
+            items: { type: 'string', enum: priorities },
+            description: 'Filter by priority'
+          },
+          search: {
+            type: 'string',
+            description: 'Search in title and description'
+          },
+          limit: {
+            type: 'number',
+            description: 'Maximum number of tasks to return (default: 100)'
+          },
+          cursor: {
+            type: 'string',
+            description: 'Pagination cursor'
+          },
+          includeArchived: {
+            type: 'boolean',
+            description: 'Also search archived tasks (default: false)'
+          }
+        }
+      }
+    },
+    {
+      name: 'kanban.getTask',
+      description: 'Get detailed information about a specific task',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          }
+        },
+        required: ['id']
+      }
+    },
+    {
+      name: 'kanban.createTask',
+      description: 'Create a new task in the Kanban board',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: 'Task title (required, min 3 characters)'
+          },
+          description: {
+            type: 'string',
+            description: 'Task description'
+          },
+          category: {
+            type: 'string',
+            enum: categories,
+            description: 'Task category'
+          },
+          priority: {
+            type: 'string',
+            enum: priorities,
+            description: 'Task priority'
+          },
+          branchTarget: {
+            type: 'object',
+            properties: {
+              type: {
+                type: 'string',
+                enum: ['current', 'new'],
+                description: 'Branch target type'
+              },
+              name: {
+                type: 'string',
+                description: 'Branch name (required for new)'
+              }
+            },
+            required: ['type']
+          },
+          blockedBy: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'IDs of tasks that must be finished before this task can start'
+          },
+          checklist: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Checklist items (subtasks or acceptance criteria) to track on the task'
+          }
+        },
+        required: ['title', 'category', 'priority', 'branchTarget']
+      }
+    },
+    {
+      name: 'kanban.updateTask',
+      description: 'Update an existing task. Pass the revision from getTask as expectedRevision to avoid overwriting changes made since; a stale revision returns code REVISION_CONFLICT and the task is left unchanged',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          title: {
+            type: 'string',
+            description: 'New title'
+          },
+          description: {
+            type: 'string',
+            description: 'New description'
+          },
+          category: {
+            type: 'string',
+            enum: categories
+          },
+          priority: {
+            type: 'string',
+            enum: priorities
+          },
+          branchTarget: {
+            type: 'object',
+            properties: {
+              type: { type: 'string', enum: ['current', 'new'] },
+              name: { type: 'string' }
+            }
+          },
+          blockedBy: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Replace the IDs of tasks blocking this one (empty array clears)'
+          },
+          expectedRevision: {
+            type: 'integer',
+            description: 'Only apply the update if the task is still at this revision'
+          }
+        },
+        required: ['id']
+      }
+    },
+    {
+      name: 'kanban.updateStatus',
+      description: `Update the status of a task. Moves are checked against the board's transition rules: agents cannot finish tasks (only a user can approve WAITING_APPROVAL → FINISHED) or move them out of FINISHED. Rejected moves return code TRANSITION_REJECTED with the allowed target statuses.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          status: {
+            type: 'string',
+            enum: statuses,
+            description: 'New status'
+          },
+          reason: {
+            type: 'string',
+            description: 'Reason for status change'
+          },
+          by: {
+            type: 'string',
+            enum: ['agent'],
+            description: 'Who is making the change (MCP callers always act as agent)'
+          },
+          sessionId: {
+            type: 'string',
+            description: 'Optional session ID'
+          },
+          expectedRevision: {
+            type: 'integer',
+            description: 'Only move the task if it is still at this revision (REVISION_CONFLICT otherwise)'
+          }
+        },
+        required: ['id', 'status']
+      }
+    },
+    {
+      name: 'kanban.claimNextTask',
+      description: 'Claim the next available task from the backlog (prioritized by priority and FIFO, skipping blocked and reserved tasks). The task is moved to IN_PROGRESS and a run session is started atomically; use the returned sessionId for addLog, heartbeat and stopRun instead of calling startRun',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          categories: {
+            type: 'array',
+            items: { type: 'string', enum: categories },
+            description: 'Filter by categories'
+          },
+          priorities: {
+            type: 'array',
+            items: { type: 'string', enum: priorities },
+            description: 'Filter by priorities'
+          },
+          agent: {
+            type: 'string',
+            description: 'Name of the claiming agent, recorded on the session (defaults to the MCP client name)'
+          }
+        }
+      }
+    },
+    {
+      name: 'kanban.startRun',
+      description: 'Start a run session for a task (moves to IN_PROGRESS, fails while blocked by unfinished tasks). Pass the sessionId from the task prompt to start the session reserved for you.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          sessionId: {
+            type: 'string',
+            description: 'Optional: reserved session ID to activate. Without it the task\'s outstanding reservation is used, or a new session is created.'
+          }
+        },
+        required: ['id']
+      }
+    },
+    {
+      name: 'kanban.stopRun',
+      description: 'Stop a run session for a task (moves to WAITING_APPROVAL)',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          sessionId: {
+            type: 'string',
+            description: 'Session ID to stop'
+          }
+        },
+        required: ['id', 'sessionId']
+      }
+    },
+    {
+      name: 'kanban.stopActiveRun',
+      description: 'Stop whichever run session is currently running for a task (moves to WAITING_APPROVAL). Fails if no session is running.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          }
+        },
+        required: ['id']
+      }
+    },
+    {
+      name: 'kanban.createTaskFromContext',
+      description: `Create a new task from the current Cursor conversation/plan context. 
+Use this when the user asks you to create a task based on what was discussed. 
+Extract the title, description, and relevant context from the conversation.
+The description should include:
+- A clear summary of what needs to be done
+- Any technical requirements or constraints mentioned
+- Related files or components mentioned
+Acceptance criteria go in acceptanceCriteria, where they become a checklist the agent ticks off while working.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          title: {
+            type: 'string',
+            description: 'Task title - should be concise but descriptive (e.g., "Add dark mode toggle to settings page")'
+          },
+          description: {
+            type: 'string',
+            description: 'Detailed description including requirements, context, and any relevant information from the conversation'
+          },
+          category: {
+            type: 'string',
+            enum: categories,
+            description: `Task category - one of: ${config.categories.map(c => `${c.id} (${c.label})`).join(', ')}`
+          },
+          priority: {
+            type: 'string',
+            enum: priorities,
+            description: 'Task priority based on urgency discussed'
+          },
+          branchName: {
+            type: 'string',
+            description: 'Optional: suggested branch name for this task (e.g., feat/dark-mode). If not provided, will use current branch unless createBranch is set.'
+          },
+          createBranch: {
+            type: 'boolean',
+            description: `Optional: work on a new branch named from the project template (${config.branchTemplate}) when no branchName is given`
+          },
+          relatedFiles: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: list of file paths that are relevant to this task'
+          },
+          acceptanceCriteria: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: list of acceptance criteria, stored as checklist items on the task'
+          },
+          technicalNotes: {
+            type: 'string',
+            description: 'Optional: any technical notes, constraints, or implementation hints'
+          },
+          blockedBy: {
+            type: 'array',
+            items: { type: 'string' },
+            description: 'Optional: IDs of tasks that must be finished before this task can start'
+          }
+        },
+        required: ['title', 'category', 'priority']
+      }
+    },
+    {
+      name: 'kanban.addChecklistItem',
+      description: 'Add a checklist item (subtask or acceptance criterion) to a task',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          text: {
+            type: 'string',
+            description: 'Checklist item text'
+          }
+        },
+        required: ['id', 'text']
+      }
+    },
+    {
+      name: 'kanban.setChecklistItem',
+      description: `Mark a checklist item as done or not done. Tick items off as you meet them so reviewers can see which criteria have been satisfied.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          itemId: {
+            type: 'string',
+            description: 'Checklist item ID (from kanban.getTask)'
+          },
+          done: {
+            type: 'boolean',
+            description: 'Whether the item is done'
+          }
+        },
+        required: ['id', 'itemId', 'done']
+      }
+    },
+    {
+      name: 'kanban.addLog',
+      description: `Add a progress log entry to a running task session. Use this to report progress, milestones, or important updates during task execution. The logs will be visible in the Kanban UI. Each log also counts as a heartbeat.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          sessionId: {
+            type: 'string',
+            description: 'Session ID (from startRun)'
+          },
+          message: {
+            type: 'string',
+            description: 'Log message describing progress or update (e.g., "Implemented user authentication", "Fixed bug in form validation")'
+          },
+          type: {
+            type: 'string',
+            enum: ['progress', 'milestone', 'warning', 'error', 'info'],
+            description: 'Type of log entry. Default: progress'
+          }
+        },
+        required: ['id', 'sessionId', 'message']
+      }
+    },
+    {
+      name: 'kanban.heartbeat',
+      description: `Signal that you are still working on a running session. Sessions with no heartbeat or log for ${config.runTimeoutMinutes} minutes are marked abandoned${config.abandonedRunAction === 'backlog' ? ' and their task returns to BACKLOG' : ' and flagged on the board'}.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          id: {
+            type: 'string',
+            description: 'Task ID'
+          },
+          sessionId: {
+            type: 'string',
+            description: 'Session ID (from startRun)'
+          }
+        },
+        required: ['id', 'sessionId']
+      }
+    }
+  ];
+
+  // Not an enum, since a project's path is accepted too
+  const projectArg = {
+    type: 'string',
+    description: `Project ID or path to act on (default: ${projects[0].id}). One of: ${projects.map(p => p.id).join(', ')}`
+  };
+
+  return [
+    ...tools.map(tool => ({
+      ...tool,
+      inputSchema: { ...tool.inputSchema, properties: { ...tool.inputSchema.properties, project: projectArg } }
+    })),
+    {
+      name: 'kanban.listProjects',
+      description: 'List the projects this server manages boards for. Pass a project ID as the project argument of other tools.',
+      inputSchema: {
+        type: 'object',
+        properties: {}
+      }
+    }
+  ];
+}
+
+// Tools shared by several boards accept the options of any of them; each board still validates its own
+export function mergeBoardConfigs(configs: BoardConfig[]): BoardConfig {
+  const union = (lists: BoardOption[][]) => {
+    const seen = new Map<string, BoardOption>();
+    lists.flat().forEach(option => {
+      if (!seen.has(option.id)) seen.set(option.id, option);
+    });
+    return [...seen.values()];
+  };
+  return {
+    ...configs[0],
+    categories: union(configs.map(c => c.categories)),
+    priorities: union(configs.map(c => c.priorities)),
+    columns: union(configs.map(c => c.columns))
+  };
+}
@@ -0,0 +1,118 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+// The subset of JSON Schema used by the tool definitions in tools.ts
+interface Schema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  enum?: unknown[];
+}
+
+export interface ArgumentIssue {
+  path: string; // Dotted path to the argument, e.g. branchTarget.name or status[1]
+  message: string;
+}
+
+export class InvalidArgumentsError extends Error {
+  readonly code = 'INVALID_ARGUMENTS';
+
+  constructor(
+    readonly tool: string,
+    readonly issues: ArgumentIssue[]
+  ) {
+    super(`Invalid arguments for ${tool}: ${issues.map(i => i.message).join('; ')}`);
+    this.name = 'InvalidArgumentsError';
+  }
+}
+
+// Rules spanning several arguments that a JSON Schema can't express, keyed by tool name
+const CROSS_FIELD_RULES: Record<string, (args: Record<string, unknown>) => ArgumentIssue[]> = {
+  'kanban.createTask': args => newBranchNeedsName(args.branchTarget),
+  'kanban.updateTask': args => newBranchNeedsName(args.branchTarget)
+};
+
+function newBranchNeedsName(branchTarget: unknown): ArgumentIssue[] {
+  if (!hasType(branchTarget, 'object')) {
+    return [];
+  }
+  const { type, name } = branchTarget as Record<string, unknown>;
+  if (type === 'new' && (typeof name !== 'string' || !name.trim())) {
+    return [{ path: 'branchTarget.name', message: 'branchTarget.name is required when branchTarget.type is "new"' }];
+  }
+  return [];
+}
+
+// Check a call's arguments against the tool's inputSchema and cross-field rules
+export function validateArguments(tool: Tool, args: Record<string, unknown> | undefined): void {
+  const values = args ?? {};
+  const issues = check(tool.inputSchema as Schema, values, '');
+  if (issues.length === 0) {
+    issues.push(...(CROSS_FIELD_RULES[tool.name]?.(values) ?? []));
+  }
+  if (issues.length > 0) {
+    throw new InvalidArgumentsError(tool.name, issues);
+  }
+}
+
+function check(schema: Schema, value: unknown, path: string): ArgumentIssue[] {
+  const name = path || 'arguments';
+
+  if (schema.type && !hasType(value, schema.type)) {
+    return [{ path, message: `${name} must be ${article(schema.type)} (got ${describe(value)})` }];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path, message: `Unknown ${name}: ${String(value)} (expected one of ${schema.enum.join(', ')})` }];
+  }
+
+  const issues: ArgumentIssue[] = [];
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined || object[key] === null) {
+        issues.push({ path: join(path, key), message: `${join(path, key)} is required` });
+      }
+    }
+    for (const [key, property] of Object.entries(schema.properties ?? {})) {
+      // Optional arguments may be sent as null by clients that serialize missing values
+      if (object[key] !== undefined && object[key] !== null) {
+        issues.push(...check(property, object[key], join(path, key)));
+      }
+    }
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => {
+      issues.push(...check(schema.items!, item, `${name}[${i}]`));
+    });
+  }
+  return issues;
+}
+
+function hasType(value: unknown, type: NonNullable<Schema['type']>): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function join(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? `an ${type}` : `a ${type}`;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return typeof value === 'object' ? 'an object' : JSON.stringify(value);
+}
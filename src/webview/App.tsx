@@ -4,24 +4,26 @@ import { Board } from './components/Board';
 import { TaskForm } from './components/TaskForm';
 import { TaskEditForm } from './components/TaskEditForm';
 import { TaskDetails } from './components/TaskDetails';
+import { ConflictPrompt } from './components/ConflictPrompt';
+import { ArchivePanel } from './components/ArchivePanel';
 import { Header } from './components/Header';
 import {
   BoardState,
   Task,
+  TaskSummary,
   ExtensionMessage,
   CreateTaskInput,
   UpdateTaskInput,
   Status,
   Category,
   Priority,
-  Project
+  Project,
+  ConflictingChange
 } from './types';
 
 const initialBoardState: BoardState = {
-  backlog: [],
-  inProgress: [],
-  waitingApproval: [],
-  finished: []
+  config: { categories: [], priorities: [], columns: [], transitions: [], branchTemplate: '', runTimeoutMinutes: 0, abandonedRunAction: 'flag', storage: 'json', archiveAfterDays: null },
+  columns: []
 };
 
 export function App() {
@@ -31,10 +33,14 @@ export function App() {
   const [showDetails, setShowDetails] = useState(false);
   const [showEditForm, setShowEditForm] = useState(false);
   const [taskToEdit, setTaskToEdit] = useState<Task | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<{ message: string; code?: string } | null>(null);
+  const [conflict, setConflict] = useState<{ task: Task; change: ConflictingChange } | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<Category | 'ALL'>('ALL');
   const [priorityFilter, setPriorityFilter] = useState<Priority | 'ALL'>('ALL');
+  const [showArchive, setShowArchive] = useState(false);
+  const [archivedTasks, setArchivedTasks] = useState<TaskSummary[]>([]);
+  const [archiveSearch, setArchiveSearch] = useState('');
   
   // Project state
   const [projects, setProjects] = useState<Project[]>([]);
@@ -50,6 +56,7 @@ export function App() {
     setShowEditForm(false);
     setSelectedTask(null);
     setTaskToEdit(null);
+    setShowArchive(false);
   }, []);
 
   // Listen for messages from extension
@@ -60,6 +67,7 @@ export function App() {
       switch (message.type) {
         case 'boardState':
           setBoardState(message.payload);
+          setError(current => current?.code === 'STORAGE_CORRUPT' ? null : current);
           break;
         case 'projectsState':
           setProjects(message.payload.projects);
@@ -70,8 +78,14 @@ export function App() {
           setShowDetails(true);
           break;
         case 'error':
-          setError(message.payload.message);
-          setTimeout(() => setError(null), 5000);
+          setError(message.payload);
+          // Damaged board files stay on screen until fixed; the next good refresh clears them
+          if (message.payload.code !== 'STORAGE_CORRUPT') {
+            setTimeout(() => setError(null), 5000);
+          }
+          break;
+        case 'archivedTasks':
+          setArchivedTasks(message.payload);
           break;
         case 'taskCreated':
           setShowTaskForm(false);
@@ -85,7 +99,13 @@ export function App() {
           }
           break;
         case 'taskRunStarted':
-          // Task run started, board will be refreshed via boardState
+          // The board is refreshed via boardState; open details show the new reservation
+          if (selectedTask && message.payload.id === selectedTask.id) {
+            vscode.postMessage({ type: 'getTaskDetails', payload: { id: selectedTask.id } });
+          }
+          break;
+        case 'revisionConflict':
+          setConflict(message.payload);
           break;
       }
     };
@@ -110,8 +130,10 @@ export function App() {
   }, []);
 
   const handleMoveTask = useCallback((id: string, status: Status) => {
-    vscode.postMessage({ type: 'moveTask', payload: { id, status } });
-  }, []);
+    // Moves made from a stale board are refused and come back as a conflict
+    const expectedRevision = boardState.columns.flatMap(c => c.tasks).find(t => t.id === id)?.revision;
+    vscode.postMessage({ type: 'moveTask', payload: { id, status, expectedRevision } });
+  }, [boardState]);
 
   const handleRunTask = useCallback((id: string) => {
     vscode.postMessage({ type: 'runTask', payload: { id } });
@@ -121,6 +143,10 @@ export function App() {
     vscode.postMessage({ type: 'stopTask', payload: { id, sessionId } });
   }, []);
 
+  const handleStopActiveRun = useCallback((id: string) => {
+    vscode.postMessage({ type: 'stopActiveRun', payload: { id } });
+  }, []);
+
   const handleFinishTask = useCallback((id: string) => {
     vscode.postMessage({ type: 'finishTask', payload: { id } });
   }, []);
@@ -141,6 +167,63 @@ export function App() {
     vscode.postMessage({ type: 'updateTask', payload: { id, data } });
   }, []);
 
+  const handleAddChecklistItem = useCallback((id: string, text: string) => {
+    vscode.postMessage({ type: 'addChecklistItem', payload: { id, text } });
+  }, []);
+
+  const handleToggleChecklistItem = useCallback((id: string, itemId: string, done: boolean) => {
+    vscode.postMessage({ type: 'setChecklistItem', payload: { id, itemId, done } });
+  }, []);
+
+  const handleOpenDiff = useCallback((id: string, sessionId: string, path: string) => {
+    vscode.postMessage({ type: 'openDiff', payload: { id, sessionId, path } });
+  }, []);
+
+  // Retry the refused change against the revision the user has now seen
+  const handleKeepMine = useCallback((change: ConflictingChange) => {
+    if (!conflict) return;
+    const { id, revision } = conflict.task;
+    if (change.type === 'moveTask') {
+      vscode.postMessage({ type: 'moveTask', payload: { id, status: change.status, expectedRevision: revision } });
+    } else {
+      vscode.postMessage({ type: 'updateTask', payload: { id, data: { ...change.data, expectedRevision: revision } } });
+    }
+    setConflict(null);
+  }, [conflict]);
+
+  const handleDiscardMine = useCallback(() => {
+    if (conflict?.change.type === 'updateTask') {
+      setShowEditForm(false);
+      setTaskToEdit(null);
+    }
+    if (conflict && selectedTask?.id === conflict.task.id) {
+      setSelectedTask(conflict.task);
+    }
+    setConflict(null);
+  }, [conflict, selectedTask]);
+
+  const handleArchiveTask = useCallback((id: string) => {
+    vscode.postMessage({ type: 'archiveTask', payload: { id } });
+    setShowDetails(false);
+    setSelectedTask(null);
+  }, []);
+
+  const handleRestoreTask = useCallback((id: string) => {
+    vscode.postMessage({ type: 'restoreTask', payload: { id } });
+    setArchivedTasks(tasks => tasks.filter(t => t.id !== id));
+  }, []);
+
+  const handleOpenArchive = useCallback(() => {
+    setArchiveSearch('');
+    setShowArchive(true);
+    vscode.postMessage({ type: 'getArchivedTasks', payload: {} });
+  }, []);
+
+  const handleArchiveSearch = useCallback((search: string) => {
+    setArchiveSearch(search);
+    vscode.postMessage({ type: 'getArchivedTasks', payload: { search } });
+  }, []);
+
   const handleViewDetails = useCallback((id: string) => {
     vscode.postMessage({ type: 'getTaskDetails', payload: { id } });
   }, []);
@@ -150,7 +233,7 @@ export function App() {
   }, []);
 
   // Filter function
-  const filterTasks = useCallback((tasks: typeof boardState.backlog) => {
+  const filterTasks = useCallback((tasks: TaskSummary[]) => {
     return tasks.filter(task => {
       const matchesSearch = !searchQuery || 
         task.title.toLowerCase().includes(searchQuery.toLowerCase());
@@ -161,10 +244,8 @@ export function App() {
   }, [searchQuery, categoryFilter, priorityFilter]);
 
   const filteredBoardState: BoardState = {
-    backlog: filterTasks(boardState.backlog),
-    inProgress: filterTasks(boardState.inProgress),
-    waitingApproval: filterTasks(boardState.waitingApproval),
-    finished: filterTasks(boardState.finished)
+    config: boardState.config,
+    columns: boardState.columns.map(column => ({ ...column, tasks: filterTasks(column.tasks) }))
   };
 
   return (
@@ -178,14 +259,21 @@ export function App() {
         onPriorityChange={setPriorityFilter}
         onNewTask={() => setShowTaskForm(true)}
         onRefresh={handleRefresh}
+        onOpenArchive={handleOpenArchive}
         projects={projects}
         activeProjectId={activeProjectId}
         onProjectChange={handleProjectChange}
+        config={boardState.config}
       />
 
       {error && (
         <div className="error-banner">
-          {error}
+          <span>
+            {error.code === 'TRANSITION_REJECTED' && <strong>Move not allowed: </strong>}
+            {error.code === 'REVISION_CONFLICT' && <strong>Conflict: </strong>}
+            {error.code === 'STORAGE_CORRUPT' && <strong>Board data is damaged: </strong>}
+            {error.message}
+          </span>
           <button onClick={() => setError(null)}>×</button>
         </div>
       )}
@@ -194,21 +282,35 @@ export function App() {
         boardState={filteredBoardState}
         onMoveTask={handleMoveTask}
         onRunTask={handleRunTask}
-        onStopTask={handleStopTask}
+        onStopTask={handleStopActiveRun}
         onFinishTask={handleFinishTask}
         onViewDetails={handleViewDetails}
       />
 
       {showTaskForm && (
         <TaskForm
+          config={boardState.config}
           onSubmit={handleCreateTask}
           onCancel={() => setShowTaskForm(false)}
         />
       )}
 
+      {showArchive && (
+        <ArchivePanel
+          tasks={archivedTasks}
+          config={boardState.config}
+          search={archiveSearch}
+          onSearchChange={handleArchiveSearch}
+          onViewDetails={handleViewDetails}
+          onRestore={handleRestoreTask}
+          onClose={() => setShowArchive(false)}
+        />
+      )}
+
       {showDetails && selectedTask && (
         <TaskDetails
           task={selectedTask}
+          config={boardState.config}
           onClose={() => {
             setShowDetails(false);
             setSelectedTask(null);
@@ -219,12 +321,18 @@ export function App() {
           onDelete={handleDeleteTask}
           onMove={handleMoveTask}
           onEdit={handleEditTask}
+          onAddChecklistItem={handleAddChecklistItem}
+          onToggleChecklistItem={handleToggleChecklistItem}
+          onOpenDiff={handleOpenDiff}
+          onArchive={handleArchiveTask}
+          onRestore={handleRestoreTask}
         />
       )}
 
       {showEditForm && taskToEdit && (
         <TaskEditForm
           task={taskToEdit}
+          config={boardState.config}
           onSubmit={handleUpdateTask}
           onCancel={() => {
             setShowEditForm(false);
@@ -232,6 +340,17 @@ export function App() {
           }}
         />
       )}
+
+      {conflict && (
+        <ConflictPrompt
+          task={conflict.task}
+          original={taskToEdit?.id === conflict.task.id ? taskToEdit : undefined}
+          change={conflict.change}
+          config={boardState.config}
+          onKeepMine={handleKeepMine}
+          onDiscard={handleDiscardMine}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,6 @@
+import { BoardOption } from './types';
+
+// Look up a configured option, tolerating ids that were removed from the config
+export function findOption(options: BoardOption[], id: string): BoardOption {
+  return options.find(o => o.id === id) || { id, label: id, color: '#6b7280' };
+}
@@ -0,0 +1,67 @@
+import React from 'react';
+import { TaskSummary, BoardConfig } from '../types';
+import { findOption } from '../boardConfig';
+
+interface ArchivePanelProps {
+  tasks: TaskSummary[];
+  config: BoardConfig;
+  search: string;
+  onSearchChange: (search: string) => void;
+  onViewDetails: (id: string) => void;
+  onRestore: (id: string) => void;
+  onClose: () => void;
+}
+
+export function ArchivePanel({ tasks, config, search, onSearchChange, onViewDetails, onRestore, onClose }: ArchivePanelProps) {
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal modal-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Archive</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+
+        <div className="archive-content">
+          <input
+            type="text"
+            className="search-input"
+            placeholder="Search archived tasks..."
+            value={search}
+            onChange={(e) => onSearchChange(e.target.value)}
+            autoFocus
+          />
+
+          {tasks.length === 0 ? (
+            <p className="archive-empty">{search ? 'No archived tasks match.' : 'No archived tasks yet.'}</p>
+          ) : (
+            <div className="archive-list">
+              {tasks.map(task => (
+                <div key={task.id} className="archive-item" onClick={() => onViewDetails(task.id)}>
+                  <span
+                    className="badge"
+                    style={{ backgroundColor: findOption(config.categories, task.category).color }}
+                  >
+                    {task.category}
+                  </span>
+                  <span className="archive-title">{task.title}</span>
+                  {task.archivedAt && (
+                    <span className="archive-date">{new Date(task.archivedAt).toLocaleDateString()}</span>
+                  )}
+                  <button
+                    className="btn btn-secondary"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRestore(task.id);
+                    }}
+                  >
+                    Restore
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,16 @@
 import React from 'react';
-import { TaskSummary, LogEntry } from '../types';
+import { TaskSummary, BoardConfig } from '../types';
+import { findOption } from '../boardConfig';
 
 interface CardProps {
   task: TaskSummary;
+  config: BoardConfig;
   onRun?: () => void;
   onStop?: () => void;
   onFinish?: () => void;
   onViewDetails: () => void;
 }
 
-const CATEGORY_COLORS: Record<string, string> = {
-  CORE: '#8b5cf6',
-  UI: '#ec4899',
-  API: '#06b6d4'
-};
-
-const PRIORITY_COLORS: Record<string, string> = {
-  HIGH: '#ef4444',
-  MEDIUM: '#f59e0b',
-  LOW: '#22c55e'
-};
-
 const LOG_TYPE_ICONS: Record<string, string> = {
   progress: '⚡',
   milestone: '🎯',
@@ -45,7 +35,7 @@ function formatTimeAgo(timestamp: string): string {
   return `${diffDays}d ago`;
 }
 
-export function Card({ task, onRun, onStop, onFinish, onViewDetails }: CardProps) {
+export function Card({ task, config, onRun, onStop, onFinish, onViewDetails }: CardProps) {
   const handleDragStart = (e: React.DragEvent) => {
     e.dataTransfer.setData('taskId', task.id);
     e.currentTarget.classList.add('card-dragging');
@@ -57,6 +47,7 @@ export function Card({ task, onRun, onStop, onFinish, onViewDetails }: CardProps
 
   // Get the last 2 logs to display
   const logsToShow = task.recentLogs?.slice(-2) || [];
+  const blockers = task.blockers || [];
 
   return (
     <div
@@ -71,18 +62,57 @@ export function Card({ task, onRun, onStop, onFinish, onViewDetails }: CardProps
       <div className="card-badges">
         <span 
           className="badge badge-category"
-          style={{ backgroundColor: CATEGORY_COLORS[task.category] }}
+          style={{ backgroundColor: findOption(config.categories, task.category).color }}
         >
           {task.category}
         </span>
         <span 
           className="badge badge-priority"
-          style={{ backgroundColor: PRIORITY_COLORS[task.priority] }}
+          style={{ backgroundColor: findOption(config.priorities, task.priority).color }}
         >
           {task.priority}
         </span>
+        {blockers.length > 0 && (
+          <span
+            className="badge badge-blocked"
+            title={`Blocked by: ${blockers.map(b => b.title).join(', ')}`}
+          >
+            🔒 {blockers.length}
+          </span>
+        )}
+        {task.abandonedRun && (
+          <span
+            className="badge badge-abandoned"
+            title={`Session ${task.abandonedRun.sessionId} stopped responding (last seen ${new Date(task.abandonedRun.lastSeenAt).toLocaleString()})`}
+          >
+            ⚠ Abandoned
+          </span>
+        )}
       </div>
 
+      {blockers.length > 0 && (
+        <div className="card-blockers">
+          Waiting on {blockers.map(b => b.title).join(', ')}
+        </div>
+      )}
+
+      {task.checklistProgress && (
+        <div
+          className="card-progress"
+          title={`${task.checklistProgress.done} of ${task.checklistProgress.total} checklist items done`}
+        >
+          <div className="card-progress-bar">
+            <div
+              className="card-progress-fill"
+              style={{ width: `${(task.checklistProgress.done / task.checklistProgress.total) * 100}%` }}
+            />
+          </div>
+          <span className="card-progress-label">
+            {task.checklistProgress.done}/{task.checklistProgress.total}
+          </span>
+        </div>
+      )}
+
       {logsToShow.length > 0 && (
         <div className="card-logs">
           {logsToShow.map((log, index) => (
@@ -97,7 +127,12 @@ export function Card({ task, onRun, onStop, onFinish, onViewDetails }: CardProps
 
       <div className="card-actions" onClick={(e) => e.stopPropagation()}>
         {onRun && (
-          <button className="card-action card-action-run" onClick={onRun} title="Run">
+          <button
+            className="card-action card-action-run"
+            onClick={onRun}
+            disabled={blockers.length > 0}
+            title={blockers.length > 0 ? 'Blocked by unfinished tasks' : 'Run'}
+          >
             ▶
           </button>
         )}
@@ -1,15 +1,16 @@
 import React from 'react';
 import { Card } from './Card';
-import { TaskSummary, Status } from '../types';
+import { TaskSummary, Status, BoardConfig } from '../types';
 
 interface ColumnProps {
   title: string;
   status: Status;
   color: string;
+  config: BoardConfig;
   tasks: TaskSummary[];
   onMoveTask: (id: string, status: Status) => void;
   onRunTask: (id: string) => void;
-  onStopTask: (id: string, sessionId: string) => void;
+  onStopTask: (id: string) => void;
   onFinishTask: (id: string) => void;
   onViewDetails: (id: string) => void;
 }
@@ -18,6 +19,7 @@ export function Column({
   title,
   status,
   color,
+  config,
   tasks,
   onMoveTask,
   onRunTask,
@@ -60,8 +62,9 @@ export function Column({
           <Card
             key={task.id}
             task={task}
+            config={config}
             onRun={status === 'BACKLOG' ? () => onRunTask(task.id) : undefined}
-            onStop={status === 'IN_PROGRESS' ? () => onStopTask(task.id, '') : undefined}
+            onStop={status === 'IN_PROGRESS' || task.activeSessionId ? () => onStopTask(task.id) : undefined}
             onFinish={status === 'WAITING_APPROVAL' ? () => onFinishTask(task.id) : undefined}
             onViewDetails={() => onViewDetails(task.id)}
           />
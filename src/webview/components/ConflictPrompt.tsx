@@ -0,0 +1,138 @@
+import React from 'react';
+import { Task, UpdateTaskInput, BoardConfig, ConflictingChange, BranchTarget } from '../types';
+
+interface ConflictPromptProps {
+  task: Task; // Latest version, saved by someone else
+  original?: Task; // Version the user started editing from, if still known
+  change: ConflictingChange;
+  config: BoardConfig;
+  onKeepMine: (change: ConflictingChange) => void;
+  onDiscard: () => void;
+}
+
+type EditableField = 'title' | 'description' | 'category' | 'priority' | 'branchTarget';
+
+const FIELDS: { key: EditableField; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'description', label: 'Description' },
+  { key: 'category', label: 'Category' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'branchTarget', label: 'Branch' }
+];
+
+function formatValue(key: EditableField, value: unknown, config: BoardConfig): string {
+  if (value === undefined || value === '') return '—';
+  if (key === 'branchTarget') {
+    const target = value as BranchTarget;
+    return target.type === 'new' ? target.name || 'new branch' : 'current branch';
+  }
+  if (key === 'category') return config.categories.find(c => c.id === value)?.label ?? String(value);
+  if (key === 'priority') return config.priorities.find(p => p.id === value)?.label ?? String(value);
+  return String(value);
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? '') === JSON.stringify(b ?? '');
+
+export function ConflictPrompt({ task, original, change, config, onKeepMine, onDiscard }: ConflictPromptProps) {
+  const columnLabel = (status: string) => config.columns.find(c => c.id === status)?.label ?? status;
+
+  if (change.type === 'moveTask') {
+    return (
+      <div className="modal-overlay" onClick={onDiscard}>
+        <div className="modal" onClick={(e) => e.stopPropagation()}>
+          <div className="modal-header">
+            <h2>Task changed</h2>
+            <button className="modal-close" onClick={onDiscard}>×</button>
+          </div>
+          <div className="conflict-content">
+            <p>
+              <strong>{task.title}</strong> was changed by someone else before your move and is now in{' '}
+              <strong>{columnLabel(task.status)}</strong>. Move it to <strong>{columnLabel(change.status)}</strong> anyway?
+            </p>
+          </div>
+          <div className="details-actions">
+            <div className="details-actions-left" />
+            <div className="details-actions-right">
+              <button className="btn btn-secondary" onClick={onDiscard}>Cancel</button>
+              <button className="btn btn-primary" onClick={() => onKeepMine(change)}>Move anyway</button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Compare against where the edit started; without it every differing field counts as ours
+  const base = original ?? task;
+  const rows = FIELDS
+    .filter(({ key }) => change.data[key] !== undefined || key === 'description')
+    .map(({ key, label }) => ({
+      key,
+      label,
+      mine: change.data[key],
+      theirs: task[key],
+      mineChanged: !sameValue(change.data[key], base[key]),
+      theirsChanged: !sameValue(task[key], base[key])
+    }))
+    .filter(row => row.mineChanged || row.theirsChanged);
+
+  const handleKeepMine = () => {
+    // Only re-apply the fields the user edited, on top of the latest revision
+    const data: UpdateTaskInput = {};
+    for (const row of rows.filter(r => r.mineChanged)) {
+      (data as Record<EditableField, unknown>)[row.key] = row.key === 'description' ? row.mine ?? '' : row.mine;
+    }
+    onKeepMine({ type: 'updateTask', data });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onDiscard}>
+      <div className="modal modal-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Task changed while you were editing</h2>
+          <button className="modal-close" onClick={onDiscard}>×</button>
+        </div>
+        <div className="conflict-content">
+          <p>
+            Someone else saved <strong>{task.title}</strong> (revision {task.revision}) after you opened it.
+            Applying your changes keeps their edits to fields you didn't touch.
+          </p>
+          <table className="conflict-table">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Theirs</th>
+                <th>Yours</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.key} className={row.mineChanged && row.theirsChanged ? 'conflict-row-both' : ''}>
+                  <td>{row.label}</td>
+                  <td className={row.theirsChanged ? 'conflict-changed' : ''}>{formatValue(row.key, row.theirs, config)}</td>
+                  <td className={row.mineChanged ? 'conflict-changed' : ''}>{formatValue(row.key, row.mine, config)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {rows.some(r => r.mineChanged && r.theirsChanged) && (
+            <p className="conflict-note">Highlighted rows were changed on both sides; applying yours replaces theirs.</p>
+          )}
+        </div>
+        <div className="details-actions">
+          <div className="details-actions-left" />
+          <div className="details-actions-right">
+            <button className="btn btn-secondary" onClick={onDiscard}>Discard mine</button>
+            <button
+              className="btn btn-primary"
+              onClick={handleKeepMine}
+              disabled={!rows.some(r => r.mineChanged)}
+            >
+              Apply my changes
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Category, Priority, Project } from '../types';
+import { Category, Priority, Project, BoardConfig } from '../types';
 
 interface HeaderProps {
   searchQuery: string;
@@ -10,9 +10,11 @@ interface HeaderProps {
   onPriorityChange: (priority: Priority | 'ALL') => void;
   onNewTask: () => void;
   onRefresh: () => void;
+  onOpenArchive: () => void;
   projects: Project[];
   activeProjectId: string;
   onProjectChange: (projectId: string) => void;
+  config: BoardConfig;
 }
 
 // Inline SVG logo component that adapts to theme
@@ -45,9 +47,11 @@ export function Header({
   onPriorityChange,
   onNewTask,
   onRefresh,
+  onOpenArchive,
   projects,
   activeProjectId,
-  onProjectChange
+  onProjectChange,
+  config
 }: HeaderProps) {
   const handleLogoClick = () => {
     // Open GitHub in new tab
@@ -100,9 +104,9 @@ export function Header({
           onChange={(e) => onCategoryChange(e.target.value as Category | 'ALL')}
         >
           <option value="ALL">All Categories</option>
-          <option value="CORE">Core</option>
-          <option value="UI">UI</option>
-          <option value="API">API</option>
+          {config.categories.map(c => (
+            <option key={c.id} value={c.id}>{c.label}</option>
+          ))}
         </select>
 
         <select
@@ -111,11 +115,15 @@ export function Header({
           onChange={(e) => onPriorityChange(e.target.value as Priority | 'ALL')}
         >
           <option value="ALL">All Priorities</option>
-          <option value="HIGH">High</option>
-          <option value="MEDIUM">Medium</option>
-          <option value="LOW">Low</option>
+          {config.priorities.map(p => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
         </select>
 
+        <button className="btn btn-secondary" onClick={onOpenArchive} title="Archived tasks">
+          Archive
+        </button>
+
         <button className="btn btn-secondary" onClick={onRefresh} title="Refresh">
           ↻
         </button>
@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
-import { Task, Status } from '../types';
+import { Task, Status, BoardConfig, RunSession } from '../types';
+import { findOption } from '../boardConfig';
 
 interface TaskDetailsProps {
   task: Task;
+  config: BoardConfig;
   onClose: () => void;
   onRun: (id: string) => void;
   onStop: (id: string, sessionId: string) => void;
@@ -10,39 +12,44 @@ interface TaskDetailsProps {
   onDelete: (id: string) => void;
   onMove: (id: string, status: Status) => void;
   onEdit: (task: Task) => void;
+  onAddChecklistItem: (id: string, text: string) => void;
+  onToggleChecklistItem: (id: string, itemId: string, done: boolean) => void;
+  onOpenDiff: (id: string, sessionId: string, path: string) => void;
+  onArchive: (id: string) => void;
+  onRestore: (id: string) => void;
 }
 
-const STATUS_LABELS: Record<Status, string> = {
-  BACKLOG: 'Backlog',
-  IN_PROGRESS: 'In Progress',
-  WAITING_APPROVAL: 'Waiting Approval',
-  FINISHED: 'Finished'
-};
-
-const CATEGORY_COLORS: Record<string, string> = {
-  CORE: '#8b5cf6',
-  UI: '#ec4899',
-  API: '#06b6d4'
-};
-
-const PRIORITY_COLORS: Record<string, string> = {
-  HIGH: '#ef4444',
-  MEDIUM: '#f59e0b',
-  LOW: '#22c55e'
-};
-
 export function TaskDetails({
   task,
+  config,
   onClose,
   onRun,
   onStop,
   onFinish,
   onDelete,
   onMove,
-  onEdit
+  onEdit,
+  onAddChecklistItem,
+  onToggleChecklistItem,
+  onOpenDiff,
+  onArchive,
+  onRestore
 }: TaskDetailsProps) {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const checklist = task.checklist || [];
   const activeSession = task.runSessions.find(s => s.status === 'running');
+  // Archived tasks are read-only until restored to the board
+  const archived = !!task.archivedAt;
+  const statusLabel = (status: Status) => findOption(config.columns, status).label;
+
+  // Reservations are only marked expired on the next write, so check the clock too
+  const sessionStatus = (session: RunSession) =>
+    session.status === 'pending' && session.expiresAt && new Date(session.expiresAt) <= new Date()
+      ? 'expired'
+      : session.status;
+  // Any task can be archived unless a run is under way or waiting for an agent
+  const runHeld = task.runSessions.some(s => s.status === 'running' || sessionStatus(s) === 'pending');
 
   const formatDate = (iso: string) => {
     return new Date(iso).toLocaleString();
@@ -61,6 +68,13 @@ export function TaskDetails({
     setShowDeleteConfirm(false);
   };
 
+  const handleAddChecklistItem = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newChecklistItem.trim()) return;
+    onAddChecklistItem(task.id, newChecklistItem.trim());
+    setNewChecklistItem('');
+  };
+
   return (
     <div className="modal-overlay" onClick={onClose}>
       <div className="modal modal-large" onClick={(e) => e.stopPropagation()}>
@@ -73,14 +87,14 @@ export function TaskDetails({
           <div className="details-section">
             <div className="details-row">
               <span className="details-label">Status:</span>
-              <span className="details-value">{STATUS_LABELS[task.status]}</span>
+              <span className="details-value">{statusLabel(task.status)}</span>
             </div>
 
             <div className="details-row">
               <span className="details-label">Category:</span>
               <span 
                 className="badge"
-                style={{ backgroundColor: CATEGORY_COLORS[task.category] }}
+                style={{ backgroundColor: findOption(config.categories, task.category).color }}
               >
                 {task.category}
               </span>
@@ -90,7 +104,7 @@ export function TaskDetails({
               <span className="details-label">Priority:</span>
               <span 
                 className="badge"
-                style={{ backgroundColor: PRIORITY_COLORS[task.priority] }}
+                style={{ backgroundColor: findOption(config.priorities, task.priority).color }}
               >
                 {task.priority}
               </span>
@@ -105,6 +119,24 @@ export function TaskDetails({
               </span>
             </div>
 
+            {task.worktree && (
+              <div className="details-row">
+                <span className="details-label">Worktree:</span>
+                <span className="details-value details-path" title={task.worktree.path}>
+                  {task.worktree.path} ({task.worktree.branch})
+                </span>
+              </div>
+            )}
+
+            {task.stash && (
+              <div className="details-row">
+                <span className="details-label">Stash:</span>
+                <span className="details-value">
+                  {task.stash.ref.slice(0, 7)} from {task.stash.branch}; when the run stops, {task.stash.branch} is checked out again and the changes restored
+                </span>
+              </div>
+            )}
+
             <div className="details-row">
               <span className="details-label">Created:</span>
               <span className="details-value">{formatDate(task.createdAt)}</span>
@@ -114,6 +146,13 @@ export function TaskDetails({
               <span className="details-label">Updated:</span>
               <span className="details-value">{formatDate(task.updatedAt)}</span>
             </div>
+
+            {task.archivedAt && (
+              <div className="details-row">
+                <span className="details-label">Archived:</span>
+                <span className="details-value">{formatDate(task.archivedAt)}</span>
+              </div>
+            )}
           </div>
 
           {task.description && (
@@ -123,17 +162,59 @@ export function TaskDetails({
             </div>
           )}
 
+          <div className="details-section">
+            <h3>
+              Checklist
+              {checklist.length > 0 && (
+                <span className="checklist-count">
+                  {checklist.filter(i => i.done).length}/{checklist.length}
+                </span>
+              )}
+            </h3>
+            <div className="checklist">
+              {checklist.map(item => (
+                <label key={item.id} className={`checklist-item ${item.done ? 'checklist-item-done' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    disabled={archived}
+                    onChange={(e) => onToggleChecklistItem(task.id, item.id, e.target.checked)}
+                  />
+                  <span className="checklist-text">{item.text}</span>
+                  {item.done && item.completedBy && (
+                    <span className="checklist-by">by {item.completedBy}</span>
+                  )}
+                </label>
+              ))}
+            </div>
+            {!archived && (
+              <form className="checklist-add" onSubmit={handleAddChecklistItem}>
+                <input
+                  type="text"
+                  value={newChecklistItem}
+                  onChange={(e) => setNewChecklistItem(e.target.value)}
+                  placeholder="Add checklist item..."
+                />
+                <button type="submit" className="btn btn-secondary" disabled={!newChecklistItem.trim()}>
+                  Add
+                </button>
+              </form>
+            )}
+          </div>
+
           <div className="details-section">
             <h3>History</h3>
             <div className="history-list">
               {task.history.map((entry, i) => (
-                <div key={i} className="history-item">
+                <div key={i} className={`history-item ${entry.refused ? 'history-item-refused' : ''}`}>
                   <span className="history-time">{formatDate(entry.at)}</span>
                   <span className="history-text">
-                    {entry.from ? `${STATUS_LABELS[entry.from]} → ` : ''}
-                    {STATUS_LABELS[entry.to]}
+                    {entry.from && entry.from !== entry.to ? `${statusLabel(entry.from)} → ` : ''}
+                    {statusLabel(entry.to)}
                     <span className="history-by"> by {entry.by}</span>
+                    {entry.refused && <span className="history-refused"> (refused)</span>}
                   </span>
+                  {entry.reason && <span className="history-reason">{entry.reason}</span>}
                 </div>
               ))}
             </div>
@@ -147,14 +228,57 @@ export function TaskDetails({
                   <div key={i} className="session-item-full">
                     <div className="session-header">
                       <span className="session-id">{session.sessionId}</span>
-                      <span className={`session-status session-status-${session.status}`}>
-                        {session.status}
+                      <span className={`session-status session-status-${sessionStatus(session)}`}>
+                        {sessionStatus(session)}
                       </span>
                       <span className="session-time">
-                        Started: {formatDate(session.startedAt)}
+                        {sessionStatus(session) === 'pending' || sessionStatus(session) === 'expired'
+                          ? `Reserved: ${formatDate(session.reservedAt ?? session.startedAt)}`
+                          : `Started: ${formatDate(session.startedAt)}`}
+                        {sessionStatus(session) === 'pending' && session.expiresAt && ` | Expires: ${formatDate(session.expiresAt)}`}
                         {session.endedAt && ` | Ended: ${formatDate(session.endedAt)}`}
+                        {session.claimedBy && ` | Claimed by: ${session.claimedBy}`}
                       </span>
                     </div>
+                    {session.worktree && (
+                      <div className="session-worktree">
+                        Worktree: {session.worktree.path} ({session.worktree.branch})
+                      </div>
+                    )}
+                    {session.changes && (
+                      <div className="session-changes">
+                        <div className="session-changes-summary">
+                          <span className="session-commit-range">
+                            {session.changes.fromCommit.slice(0, 7)}..{session.changes.toCommit.slice(0, 7)}
+                          </span>
+                          <span>
+                            {session.changes.commits.length} commit{session.changes.commits.length === 1 ? '' : 's'},{' '}
+                            {session.changes.files.length} file{session.changes.files.length === 1 ? '' : 's'}
+                          </span>
+                          <span className="diff-insertions">+{session.changes.insertions}</span>
+                          <span className="diff-deletions">-{session.changes.deletions}</span>
+                        </div>
+                        {session.changes.commits.map(commit => (
+                          <div key={commit.hash} className="session-commit">
+                            <span className="session-commit-hash">{commit.hash.slice(0, 7)}</span>
+                            <span>{commit.subject}</span>
+                          </div>
+                        ))}
+                        {session.changes.files.map(file => (
+                          <div key={file.path} className="session-file">
+                            <span className="session-file-path" title={file.path}>{file.path}</span>
+                            <span className="diff-insertions">+{file.insertions}</span>
+                            <span className="diff-deletions">-{file.deletions}</span>
+                            <button
+                              className="btn btn-secondary"
+                              onClick={() => onOpenDiff(task.id, session.sessionId, file.path)}
+                            >
+                              Diff
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     {session.logs && session.logs.length > 0 && (
                       <div className="session-logs">
                         {session.logs.map((log, j) => (
@@ -191,25 +315,28 @@ export function TaskDetails({
 
         <div className="details-actions">
           <div className="details-actions-left">
-            <select
-              className="move-select"
-              value=""
-              onChange={(e) => {
-                if (e.target.value) {
-                  onMove(task.id, e.target.value as Status);
-                }
-              }}
-            >
-              <option value="">Move to...</option>
-              <option value="BACKLOG">Backlog</option>
-              <option value="IN_PROGRESS">In Progress</option>
-              <option value="WAITING_APPROVAL">Waiting Approval</option>
-              <option value="FINISHED">Finished</option>
-            </select>
-
-            <button className="btn btn-secondary" onClick={() => onEdit(task)}>
-              ✎ Edit
-            </button>
+            {!archived && (
+              <>
+                <select
+                  className="move-select"
+                  value=""
+                  onChange={(e) => {
+                    if (e.target.value) {
+                      onMove(task.id, e.target.value as Status);
+                    }
+                  }}
+                >
+                  <option value="">Move to...</option>
+                  {config.columns.map(c => (
+                    <option key={c.id} value={c.id}>{c.label}</option>
+                  ))}
+                </select>
+
+                <button className="btn btn-secondary" onClick={() => onEdit(task)}>
+                  ✎ Edit
+                </button>
+              </>
+            )}
 
             <button className="btn btn-danger" onClick={handleDeleteClick}>
               Delete
@@ -217,12 +344,22 @@ export function TaskDetails({
           </div>
 
           <div className="details-actions-right">
-            {task.status === 'BACKLOG' && (
+            {archived && (
+              <button className="btn btn-primary" onClick={() => onRestore(task.id)}>
+                Restore to board
+              </button>
+            )}
+            {!archived && !runHeld && (
+              <button className="btn btn-secondary" onClick={() => onArchive(task.id)}>
+                Archive
+              </button>
+            )}
+            {!archived && task.status === 'BACKLOG' && (
               <button className="btn btn-success" onClick={() => onRun(task.id)}>
                 ▶ Run
               </button>
             )}
-            {task.status === 'IN_PROGRESS' && activeSession && (
+            {!archived && task.status === 'IN_PROGRESS' && activeSession && (
               <button 
                 className="btn btn-warning" 
                 onClick={() => onStop(task.id, activeSession.sessionId)}
@@ -230,7 +367,7 @@ export function TaskDetails({
                 ⏹ Stop
               </button>
             )}
-            {task.status === 'WAITING_APPROVAL' && (
+            {!archived && task.status === 'WAITING_APPROVAL' && (
               <button className="btn btn-success" onClick={() => onFinish(task.id)}>
                 ✓ Finish
               </button>
@@ -1,13 +1,14 @@
 import React, { useState } from 'react';
-import { Task, UpdateTaskInput, Category, Priority, BranchTargetType } from '../types';
+import { Task, UpdateTaskInput, Category, Priority, BranchTargetType, BoardConfig } from '../types';
 
 interface TaskEditFormProps {
   task: Task;
+  config: BoardConfig;
   onSubmit: (id: string, data: UpdateTaskInput) => void;
   onCancel: () => void;
 }
 
-export function TaskEditForm({ task, onSubmit, onCancel }: TaskEditFormProps) {
+export function TaskEditForm({ task, config, onSubmit, onCancel }: TaskEditFormProps) {
   const [title, setTitle] = useState(task.title);
   const [description, setDescription] = useState(task.description || '');
   const [category, setCategory] = useState<Category>(task.category);
@@ -44,7 +45,9 @@ export function TaskEditForm({ task, onSubmit, onCancel }: TaskEditFormProps) {
       branchTarget: {
         type: branchType,
         name: branchType === 'new' ? branchName : undefined
-      }
+      },
+      // Refused if the task was saved by someone else after this form opened
+      expectedRevision: task.revision
     };
 
     onSubmit(task.id, data);
@@ -97,9 +100,9 @@ export function TaskEditForm({ task, onSubmit, onCancel }: TaskEditFormProps) {
               onChange={(e) => setCategory(e.target.value as Category)}
               className="category-select"
             >
-              <option value="CORE">Core</option>
-              <option value="UI">UI</option>
-              <option value="API">API</option>
+              {config.categories.map(c => (
+                <option key={c.id} value={c.id}>{c.label}</option>
+              ))}
             </select>
           </div>
 
@@ -147,27 +150,17 @@ export function TaskEditForm({ task, onSubmit, onCancel }: TaskEditFormProps) {
           <div className="form-group">
             <label>Priority</label>
             <div className="priority-button-group">
-              <button
-                type="button"
-                className={`priority-btn priority-high ${priority === 'HIGH' ? 'active' : ''}`}
-                onClick={() => setPriority('HIGH')}
-              >
-                High
-              </button>
-              <button
-                type="button"
-                className={`priority-btn priority-medium ${priority === 'MEDIUM' ? 'active' : ''}`}
-                onClick={() => setPriority('MEDIUM')}
-              >
-                Medium
-              </button>
-              <button
-                type="button"
-                className={`priority-btn priority-low ${priority === 'LOW' ? 'active' : ''}`}
-                onClick={() => setPriority('LOW')}
-              >
-                Low
-              </button>
+              {config.priorities.map(p => (
+                <button
+                  key={p.id}
+                  type="button"
+                  className={`priority-btn priority-${p.id.toLowerCase()} ${priority === p.id ? 'active' : ''}`}
+                  style={priority === p.id ? { borderColor: p.color } : undefined}
+                  onClick={() => setPriority(p.id)}
+                >
+                  {p.label}
+                </button>
+              ))}
             </div>
           </div>
 
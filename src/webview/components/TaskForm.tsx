@@ -1,16 +1,22 @@
 import React, { useState } from 'react';
-import { CreateTaskInput, Category, Priority, BranchTargetType } from '../types';
+import { CreateTaskInput, Category, Priority, BranchTargetType, BoardConfig } from '../types';
 
 interface TaskFormProps {
+  config: BoardConfig;
   onSubmit: (input: CreateTaskInput) => void;
   onCancel: () => void;
 }
 
-export function TaskForm({ onSubmit, onCancel }: TaskFormProps) {
+// Default to the middle priority, matching the built-in MEDIUM
+function defaultPriority(config: BoardConfig): Priority {
+  return config.priorities[Math.floor((config.priorities.length - 1) / 2)]?.id ?? '';
+}
+
+export function TaskForm({ config, onSubmit, onCancel }: TaskFormProps) {
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
-  const [category, setCategory] = useState<Category>('CORE');
-  const [priority, setPriority] = useState<Priority>('MEDIUM');
+  const [category, setCategory] = useState<Category>(config.categories[0]?.id ?? '');
+  const [priority, setPriority] = useState<Priority>(defaultPriority(config));
   const [branchType, setBranchType] = useState<BranchTargetType>('current');
   const [branchName, setBranchName] = useState('');
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -22,10 +28,6 @@ export function TaskForm({ onSubmit, onCancel }: TaskFormProps) {
       newErrors.title = 'Title must be at least 3 characters';
     }
 
-    if (branchType === 'new' && !branchName) {
-      newErrors.branchName = 'Branch name is required';
-    }
-
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -42,7 +44,7 @@ export function TaskForm({ onSubmit, onCancel }: TaskFormProps) {
       priority,
       branchTarget: {
         type: branchType,
-        name: branchType === 'new' ? branchName : undefined
+        name: branchType === 'new' ? branchName.trim() || undefined : undefined
       }
     });
   };
@@ -95,10 +97,9 @@ export function TaskForm({ onSubmit, onCancel }: TaskFormProps) {
               onChange={(e) => setCategory(e.target.value as Category)}
               className="category-select"
             >
-              <option value="">e.g., Core, UI, API</option>
-              <option value="CORE">Core</option>
-              <option value="UI">UI</option>
-              <option value="API">API</option>
+              {config.categories.map(c => (
+                <option key={c.id} value={c.id}>{c.label}</option>
+              ))}
             </select>
           </div>
 
@@ -135,7 +136,7 @@ export function TaskForm({ onSubmit, onCancel }: TaskFormProps) {
                   type="text"
                   value={branchName}
                   onChange={(e) => setBranchName(e.target.value)}
-                  placeholder="feat/my-feature"
+                  placeholder={`Leave empty to use ${config.branchTemplate}`}
                   className={errors.branchName ? 'input-error' : ''}
                 />
                 {errors.branchName && <span className="error-text">{errors.branchName}</span>}
@@ -148,27 +149,17 @@ export function TaskForm({ onSubmit, onCancel }: TaskFormProps) {
           <div className="form-group">
             <label>Priority</label>
             <div className="priority-button-group">
-              <button
-                type="button"
-                className={`priority-btn priority-high ${priority === 'HIGH' ? 'active' : ''}`}
-                onClick={() => setPriority('HIGH')}
-              >
-                High
-              </button>
-              <button
-                type="button"
-                className={`priority-btn priority-medium ${priority === 'MEDIUM' ? 'active' : ''}`}
-                onClick={() => setPriority('MEDIUM')}
-              >
-                Medium
-              </button>
-              <button
-                type="button"
-                className={`priority-btn priority-low ${priority === 'LOW' ? 'active' : ''}`}
-                onClick={() => setPriority('LOW')}
-              >
-                Low
-              </button>
+              {config.priorities.map(p => (
+                <button
+                  key={p.id}
+                  type="button"
+                  className={`priority-btn priority-${p.id.toLowerCase()} ${priority === p.id ? 'active' : ''}`}
+                  style={priority === p.id ? { borderColor: p.color } : undefined}
+                  onClick={() => setPriority(p.id)}
+                >
+                  {p.label}
+                </button>
+              ))}
             </div>
           </div>
 
@@ -1,11 +1,42 @@
 // Re-export types needed by the webview
 // These mirror the types from core/types.ts
 
-export type Status = 'BACKLOG' | 'IN_PROGRESS' | 'WAITING_APPROVAL' | 'FINISHED';
-export type Category = 'CORE' | 'UI' | 'API';
-export type Priority = 'HIGH' | 'MEDIUM' | 'LOW';
+export type CoreStatus = 'BACKLOG' | 'IN_PROGRESS' | 'WAITING_APPROVAL' | 'FINISHED';
+export type Status = CoreStatus | (string & {});
+export type Category = string;
+export type Priority = string;
 export type BranchTargetType = 'current' | 'new';
 
+export type Actor = 'user' | 'agent' | 'system';
+
+export interface TransitionRule {
+  from: Status[] | '*';
+  to: Status[] | '*';
+  actors: Actor[];
+}
+
+export interface BoardOption {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export type AbandonedRunAction = 'backlog' | 'flag';
+
+export type StorageBackend = 'json' | 'sqlite';
+
+export interface BoardConfig {
+  categories: BoardOption[];
+  priorities: BoardOption[];
+  columns: BoardOption[];
+  transitions: TransitionRule[];
+  branchTemplate: string;
+  runTimeoutMinutes: number;
+  abandonedRunAction: AbandonedRunAction;
+  storage: StorageBackend;
+  archiveAfterDays: number | null;
+}
+
 // Project/Workspace types
 export interface Project {
   id: string;
@@ -22,9 +53,10 @@ export interface HistoryEntry {
   at: string;
   from: Status | null;
   to: Status;
-  by: 'user' | 'agent' | 'system';
+  by: Actor;
   reason?: string;
   sessionId?: string;
+  refused?: boolean;
 }
 
 export interface LogEntry {
@@ -33,12 +65,64 @@ export interface LogEntry {
   type: 'progress' | 'milestone' | 'warning' | 'error' | 'info';
 }
 
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+  completedAt?: string;
+  completedBy?: Actor;
+}
+
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+export interface WorktreeInfo {
+  path: string;
+  branch: string;
+  createdAt: string;
+}
+
+export interface StashInfo {
+  ref: string;
+  branch: string;
+  createdAt: string;
+}
+
+export interface CommitInfo {
+  hash: string;
+  subject: string;
+}
+
+export interface FileChange {
+  path: string;
+  insertions: number;
+  deletions: number;
+}
+
+export interface SessionChanges {
+  fromCommit: string;
+  toCommit: string;
+  commits: CommitInfo[];
+  files: FileChange[];
+  insertions: number;
+  deletions: number;
+}
+
 export interface RunSession {
   sessionId: string;
   startedAt: string;
+  reservedAt?: string;
+  expiresAt?: string;
+  lastSeenAt?: string;
   endedAt?: string;
-  status: 'running' | 'stopped' | 'completed';
+  status: 'pending' | 'running' | 'stopped' | 'completed' | 'expired' | 'abandoned';
   logs: LogEntry[];
+  worktree?: WorktreeInfo;
+  startCommit?: string;
+  changes?: SessionChanges;
+  claimedBy?: string;
 }
 
 export interface Task {
@@ -51,8 +135,27 @@ export interface Task {
   status: Status;
   createdAt: string;
   updatedAt: string;
+  revision: number;
   history: HistoryEntry[];
   runSessions: RunSession[];
+  blockedBy?: string[];
+  blocks?: string[];
+  checklist?: ChecklistItem[];
+  worktree?: WorktreeInfo;
+  stash?: StashInfo;
+  abandonedRun?: AbandonedRun;
+  archivedAt?: string;
+}
+
+export interface AbandonedRun {
+  sessionId: string;
+  lastSeenAt: string;
+  detectedAt: string;
+}
+
+export interface TaskRef {
+  id: string;
+  title: string;
 }
 
 export interface TaskSummary {
@@ -62,14 +165,23 @@ export interface TaskSummary {
   category: Category;
   priority: Priority;
   updatedAt: string;
+  revision: number;
   recentLogs?: LogEntry[];
+  activeSessionId?: string;
+  abandonedRun?: AbandonedRun;
+  blockers?: TaskRef[];
+  checklistProgress?: ChecklistProgress;
+  archivedAt?: string;
+}
+
+export interface BoardColumnState {
+  status: Status;
+  tasks: TaskSummary[];
 }
 
 export interface BoardState {
-  backlog: TaskSummary[];
-  inProgress: TaskSummary[];
-  waitingApproval: TaskSummary[];
-  finished: TaskSummary[];
+  config: BoardConfig;
+  columns: BoardColumnState[];
 }
 
 export interface CreateTaskInput {
@@ -78,6 +190,8 @@ export interface CreateTaskInput {
   category: Category;
   priority: Priority;
   branchTarget: BranchTarget;
+  blockedBy?: string[];
+  checklist?: string[];
 }
 
 export interface UpdateTaskInput {
@@ -86,6 +200,8 @@ export interface UpdateTaskInput {
   category?: Category;
   priority?: Priority;
   branchTarget?: BranchTarget;
+  blockedBy?: string[];
+  expectedRevision?: number;
 }
 
 // Messages
@@ -94,20 +210,33 @@ export type WebviewMessage =
   | { type: 'createTask'; payload: CreateTaskInput }
   | { type: 'updateTask'; payload: { id: string; data: UpdateTaskInput } }
   | { type: 'deleteTask'; payload: { id: string } }
-  | { type: 'moveTask'; payload: { id: string; status: Status } }
+  | { type: 'moveTask'; payload: { id: string; status: Status; expectedRevision?: number } }
   | { type: 'runTask'; payload: { id: string } }
   | { type: 'stopTask'; payload: { id: string; sessionId: string } }
+  | { type: 'stopActiveRun'; payload: { id: string } }
   | { type: 'finishTask'; payload: { id: string } }
   | { type: 'getTaskDetails'; payload: { id: string } }
+  | { type: 'addChecklistItem'; payload: { id: string; text: string } }
+  | { type: 'setChecklistItem'; payload: { id: string; itemId: string; done: boolean } }
+  | { type: 'openDiff'; payload: { id: string; sessionId: string; path: string } }
+  | { type: 'archiveTask'; payload: { id: string } }
+  | { type: 'restoreTask'; payload: { id: string } }
+  | { type: 'getArchivedTasks'; payload: { search?: string } }
   | { type: 'refresh' }
   | { type: 'switchProject'; payload: { projectId: string } };
 
+export type ConflictingChange =
+  | { type: 'updateTask'; data: UpdateTaskInput }
+  | { type: 'moveTask'; status: Status };
+
 export type ExtensionMessage =
   | { type: 'boardState'; payload: BoardState }
   | { type: 'taskDetails'; payload: Task }
-  | { type: 'error'; payload: { message: string } }
+  | { type: 'error'; payload: { message: string; code?: string } }
   | { type: 'taskCreated'; payload: { id: string } }
   | { type: 'taskUpdated'; payload: { id: string } }
   | { type: 'taskRunStarted'; payload: { id: string; sessionId: string } }
+  | { type: 'revisionConflict'; payload: { task: Task; change: ConflictingChange } }
+  | { type: 'archivedTasks'; payload: TaskSummary[] }
   | { type: 'projectsState'; payload: { projects: Project[]; activeProjectId: string } };
 
@@ -1,8 +1,27 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { TaskStore } from './core/TaskStore';
-import { WebviewMessage, ExtensionMessage, BoardState, Status, Project } from './core/types';
-import { GitHelper } from './core/gitHelper';
+import * as fs from 'fs';
+import { RevisionConflictError, TaskStore } from './core/TaskStore';
+import {
+  WebviewMessage,
+  ExtensionMessage,
+  BoardState,
+  Status,
+  Project,
+  Task,
+  WorktreeInfo,
+  ConflictingChange
+} from './core/types';
+import { GitHelper, validateBranchName } from './core/gitHelper';
+import { TransitionError } from './core/workflow';
+import { StorageCorruptionError } from './core/TaskRepository';
+import { renderExecuteTaskPrompt } from './core/agentPrompts';
+
+// Read-only documents holding a file's contents at a commit, used for session diffs
+export const GIT_REVISION_SCHEME = 'kanban-git';
+
+// Board data changes on every write, so it never counts as uncommitted work
+const KANBAN_PATHS = ['.cursor-kanban'];
 
 export class KanbanViewProvider implements vscode.WebviewViewProvider {
   private _view?: vscode.WebviewView;
@@ -155,9 +174,13 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
           await this.getActiveTaskStore().updateStatus({
             id: message.payload.id,
             status: message.payload.status,
-            by: 'user'
+            by: 'user',
+            expectedRevision: message.payload.expectedRevision
           });
           await this.sendBoardState();
+          if (message.payload.status === 'FINISHED') {
+            await this.offerWorktreeCleanup(message.payload.id);
+          }
           break;
 
         case 'runTask':
@@ -169,6 +192,10 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
           await this.sendBoardState();
           break;
 
+        case 'stopActiveRun':
+          await this.confirmStopActiveRun(message.payload.id);
+          break;
+
         case 'finishTask':
           await this.getActiveTaskStore().updateStatus({
             id: message.payload.id,
@@ -176,6 +203,47 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
             by: 'user'
           });
           await this.sendBoardState();
+          await this.offerWorktreeCleanup(message.payload.id);
+          break;
+
+        case 'addChecklistItem':
+          await this.getActiveTaskStore().addChecklistItem(message.payload.id, message.payload.text);
+          this.sendMessage({ type: 'taskUpdated', payload: { id: message.payload.id } });
+          await this.sendBoardState();
+          break;
+
+        case 'setChecklistItem':
+          await this.getActiveTaskStore().setChecklistItem(
+            message.payload.id,
+            message.payload.itemId,
+            message.payload.done,
+            'user'
+          );
+          this.sendMessage({ type: 'taskUpdated', payload: { id: message.payload.id } });
+          await this.sendBoardState();
+          break;
+
+        case 'openDiff':
+          await this.openSessionDiff(message.payload.id, message.payload.sessionId, message.payload.path);
+          break;
+
+        case 'archiveTask':
+          await this.getActiveTaskStore().archiveTask(message.payload.id);
+          await this.sendBoardState();
+          break;
+
+        case 'restoreTask': {
+          const restored = await this.getActiveTaskStore().restoreTask(message.payload.id);
+          await this.sendBoardState();
+          this.sendMessage({ type: 'taskDetails', payload: restored });
+          break;
+        }
+
+        case 'getArchivedTasks':
+          this.sendMessage({
+            type: 'archivedTasks',
+            payload: await this.getActiveTaskStore().listArchivedTasks(message.payload.search)
+          });
           break;
 
         case 'getTaskDetails':
@@ -191,13 +259,42 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
           break;
       }
     } catch (error) {
+      if (error instanceof RevisionConflictError && await this.sendRevisionConflict(message, error)) {
+        return;
+      }
       this.sendMessage({
         type: 'error',
-        payload: { message: error instanceof Error ? error.message : String(error) }
+        payload: {
+          message: error instanceof Error ? error.message : String(error),
+          code: error instanceof TransitionError || error instanceof RevisionConflictError || error instanceof StorageCorruptionError
+            ? error.code
+            : undefined
+        }
       });
     }
   }
 
+  // Hand a stale edit or move back to the webview with the latest task so the user can resolve it
+  private async sendRevisionConflict(message: WebviewMessage, error: RevisionConflictError): Promise<boolean> {
+    let change: ConflictingChange;
+    if (message.type === 'updateTask') {
+      change = { type: 'updateTask', data: message.payload.data };
+    } else if (message.type === 'moveTask') {
+      change = { type: 'moveTask', status: message.payload.status };
+    } else {
+      return false;
+    }
+
+    const task = await this.getActiveTaskStore().getTask(error.taskId);
+    if (!task) {
+      return false;
+    }
+
+    this.sendMessage({ type: 'revisionConflict', payload: { task, change } });
+    await this.sendBoardState();
+    return true;
+  }
+
   public async handleRunTask(taskId: string) {
     const taskStore = this.getActiveTaskStore();
     const gitHelper = this.getActiveGitHelper();
@@ -206,11 +303,26 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
       throw new Error('Task not found');
     }
 
+    const blockers = await taskStore.getBlockers(taskId);
+    if (blockers.length > 0) {
+      throw new Error(`Task is blocked by: ${blockers.map(t => t.title).join(', ')}`);
+    }
+
     // If task has a branch target set to 'new', ask for branch name confirmation
     let branchName = task.branchTarget.name;
     let branchType = task.branchTarget.type;
-    
-    if (task.branchTarget.type !== 'current') {
+    let worktree: WorktreeInfo | undefined;
+    const runMode = vscode.workspace.getConfiguration('kanban').get<string>('runMode', 'checkout');
+
+    if (runMode === 'worktree') {
+      // Each task gets its own checkout so parallel agents don't share a working tree
+      worktree = await this.prepareWorktree(task);
+      if (!worktree) {
+        return; // User cancelled
+      }
+      branchType = 'new';
+      branchName = worktree.branch;
+    } else if (task.branchTarget.type !== 'current') {
       // Ask user to choose between current branch or new branch with name
       const branchChoice = await vscode.window.showQuickPick(
         [
@@ -232,14 +344,9 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
       if (branchChoice.value === 'new') {
         const newBranchName = await vscode.window.showInputBox({
           prompt: 'Enter the new branch name',
-          value: task.branchTarget.name || `feat/${task.title.toLowerCase().replace(/\s+/g, '-')}`,
+          value: task.branchTarget.name || await taskStore.suggestBranchName(task),
           placeHolder: 'feat/my-feature',
-          validateInput: (value) => {
-            if (!value || value.trim().length === 0) {
-              return 'Branch name is required';
-            }
-            return null;
-          }
+          validateInput: (value) => validateBranchName(value)
         });
 
         if (!newBranchName) {
@@ -247,26 +354,41 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
         }
 
         branchName = newBranchName;
+
+        // A task run again (for example after an abandoned run) continues on the branch it already has
+        const exists = await gitHelper.branchExists(newBranchName);
+        if (exists && newBranchName !== task.branchTarget.name) {
+          throw new Error(`Branch '${newBranchName}' already exists`);
+        }
+        if (!(await this.handleDirtyTree(task))) {
+          return; // User aborted
+        }
         
-        // Create and checkout the new branch
-        await gitHelper.createAndCheckoutBranch(newBranchName);
+        // Create and checkout the new branch, or return to the task's own
+        if (exists) {
+          await gitHelper.checkoutBranch(newBranchName);
+        } else {
+          await gitHelper.createAndCheckoutBranch(newBranchName);
+        }
       }
     }
 
-    // Generate a session ID for tracking (but don't change task status)
-    const sessionId = `run_${Date.now().toString(36)}`;
+    // Reserve the session the agent will start (the task stays in its column until then)
+    const reservationMinutes = vscode.workspace.getConfiguration('kanban').get<number>('runReservationMinutes', 30);
+    const { sessionId } = await taskStore.reserveRun(task.id, reservationMinutes);
     
     // Get active project name for context
     const activeProject = this.projects.find(p => p.id === this.activeProjectId);
     
     // Generate professional prompt for Cursor agent
-    const prompt = this.generateAgentPrompt({
+    const prompt = renderExecuteTaskPrompt({
       ...task,
       branchTarget: {
         type: branchType,
         name: branchName
-      }
-    }, sessionId, activeProject?.name);
+      },
+      worktree
+    }, sessionId, { projectName: activeProject?.name, runTimeoutMinutes: taskStore.getBoardConfig().runTimeoutMinutes });
     
     // Copy to clipboard
     await vscode.env.clipboard.writeText(prompt);
@@ -276,6 +398,7 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
       type: 'taskRunStarted',
       payload: { id: taskId, sessionId }
     });
+    await this.sendBoardState();
     
     // Show notification to user
     vscode.window.showInformationMessage(
@@ -288,69 +411,233 @@ export class KanbanViewProvider implements vscode.WebviewViewProvider {
     });
   }
 
-  private generateAgentPrompt(task: { 
-    id: string; 
-    title: string; 
-    description?: string; 
-    category: string; 
-    priority: string;
-    branchTarget: { type: string; name?: string };
-  }, sessionId: string, projectName?: string): string {
-    const branchInfo = task.branchTarget.type === 'current' 
-      ? 'current branch' 
-      : `branch: ${task.branchTarget.name}`;
-
-    return `## Kanban Task Execution Request
-
-**Task ID:** \`${task.id}\`
-**Session ID:** \`${sessionId}\`
-**Project:** ${projectName || 'Unknown'}
-**Title:** ${task.title}
-**Category:** ${task.category} | **Priority:** ${task.priority}
-**Branch:** ${branchInfo}
-
-${task.description ? `### Description\n${task.description}\n` : ''}
-### Instructions
-
-Execute this task from the Kanban board. Follow these guidelines:
-
-1. **Start the Task**: First, mark the task as in progress using MCP:
-   \`\`\`
-   kanban.startRun({ id: "${task.id}" })
-   \`\`\`
-
-2. **Understand the Task**: Analyze the requirements based on the title${task.description ? ' and description' : ''} above.
-
-3. **Implementation**: Proceed with the implementation following best practices for the ${task.category} category.
-
-4. **Progress Tracking**: When reaching significant milestones, update the task via MCP:
-   \`\`\`
-   kanban.updateStatus({
-     id: "${task.id}",
-     status: "IN_PROGRESS",
-     by: "agent",
-     reason: "<describe current progress>",
-     sessionId: "${sessionId}"
-   })
-   \`\`\`
-
-5. **Completion**: When the task is complete:
-   - Ensure all changes are saved
-   - Call \`kanban.stopRun\` to move the task to "Waiting Approval"
-   - Provide a summary of what was accomplished
-
-### MCP Tools Available
-- \`kanban.startRun\` - Start working on the task (changes status to IN_PROGRESS)
-- \`kanban.updateStatus\` - Update task status with progress notes
-- \`kanban.stopRun\` - Complete the session and move to review
-- \`kanban.getTask\` - Get current task details if needed
-
-Begin implementation now. Report progress as you work.`;
+  // Abandon silent runs in every project; the extension calls this periodically
+  public async checkStaleRuns() {
+    for (const [projectId, taskStore] of this.taskStores) {
+      let abandoned: Task[];
+      try {
+        abandoned = await taskStore.markAbandonedRuns();
+      } catch {
+        continue; // A broken board config is reported when the board loads
+      }
+
+      for (const task of abandoned) {
+        vscode.window.showWarningMessage(
+          task.status === 'BACKLOG'
+            ? `The agent running "${task.title}" stopped responding; the task is back in the backlog.`
+            : `The agent running "${task.title}" stopped responding.`
+        );
+      }
+      if (abandoned.length > 0 && projectId === this.activeProjectId) {
+        await this.sendBoardState();
+      }
+    }
   }
 
-  public async refresh() {
-    await this.sendProjectsState();
+  // Archive old finished tasks in every project; the extension calls this periodically
+  public async archiveFinishedTasks() {
+    for (const [projectId, taskStore] of this.taskStores) {
+      let archived: Task[];
+      try {
+        archived = await taskStore.archiveFinishedTasks();
+      } catch {
+        continue; // A broken board config is reported when the board loads
+      }
+
+      if (archived.length > 0 && projectId === this.activeProjectId) {
+        await this.sendBoardState();
+      }
+    }
+  }
+
+  // Card-level Stop: confirm, then end whatever session is running
+  public async confirmStopActiveRun(taskId: string) {
+    const taskStore = this.getActiveTaskStore();
+    const task = await taskStore.getTask(taskId);
+    if (!task) {
+      throw new Error('Task not found');
+    }
+
+    const activeSession = task.runSessions.find(s => s.status === 'running');
+    if (!activeSession) {
+      throw new Error(`"${task.title}" has no running session to stop`);
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Stop the running session for "${task.title}"?`,
+      {
+        modal: true,
+        detail: `Session ${activeSession.sessionId} ends and the task moves to review.`
+      },
+      'Stop Run'
+    );
+    if (choice !== 'Stop Run') {
+      return;
+    }
+
+    // Whatever is running by now gets stopped, even if the agent restarted in the meantime
+    await taskStore.stopActiveRun(taskId);
+    await this.sendBoardState();
+    vscode.window.showInformationMessage(`Task stopped: ${task.title}`);
+  }
+
+  // Deal with uncommitted changes before switching branches; false means the run was aborted
+  private async handleDirtyTree(task: Task): Promise<boolean> {
+    const gitHelper = this.getActiveGitHelper();
+    if (!(await gitHelper.hasUncommittedChanges(KANBAN_PATHS))) {
+      return true;
+    }
+
+    const taskStore = this.getActiveTaskStore();
+    const choice = await vscode.window.showWarningMessage(
+      'You have uncommitted changes. What should happen to them before switching branches?',
+      {
+        modal: true,
+        detail: 'Stashed changes are restored automatically when the run stops.'
+      },
+      'Stash',
+      'Commit WIP'
+    );
+
+    if (choice === 'Stash') {
+      const branch = await gitHelper.getCurrentBranch();
+      const ref = await gitHelper.stashChanges(`kanban: before running "${task.title}"`, KANBAN_PATHS);
+      await taskStore.recordDirtyTreeChoice(task.id, 'stash', {
+        stash: { ref, branch, createdAt: new Date().toISOString() }
+      });
+      return true;
+    }
+
+    if (choice === 'Commit WIP') {
+      const commit = await gitHelper.commitAll(`WIP: before running "${task.title}"`, KANBAN_PATHS);
+      await taskStore.recordDirtyTreeChoice(task.id, 'commit-wip', { commit });
+      return true;
+    }
+
+    await taskStore.recordDirtyTreeChoice(task.id, 'abort');
     await this.sendBoardState();
+    return false;
+  }
+
+  // Reuse the task's worktree or create one on a new branch
+  private async prepareWorktree(task: Task): Promise<WorktreeInfo | undefined> {
+    if (task.worktree && fs.existsSync(task.worktree.path)) {
+      return task.worktree;
+    }
+
+    const branchName = await vscode.window.showInputBox({
+      prompt: 'Branch for the task worktree',
+      value: task.branchTarget.name || await this.getActiveTaskStore().suggestBranchName(task),
+      placeHolder: 'feat/my-feature',
+      validateInput: (value) => validateBranchName(value)
+    });
+
+    if (!branchName) {
+      return undefined;
+    }
+
+    const projectPath = this.getActiveProjectPath();
+    // Kept outside .cursor-kanban so code edits in a worktree don't wake the board's file watchers
+    const worktreeDir = vscode.workspace
+      .getConfiguration('kanban')
+      .get<string>('worktreeDirectory', '../{project}-worktrees')
+      .replace(/\{project\}/g, path.basename(projectPath));
+    const worktreePath = path.join(path.resolve(projectPath, worktreeDir), `task-${task.id.split('-')[0]}`);
+
+    const gitHelper = this.getActiveGitHelper();
+    const baseBranch = await gitHelper.getCurrentBranch();
+    await gitHelper.addWorktree(worktreePath, branchName);
+
+    const worktree: WorktreeInfo = {
+      path: worktreePath,
+      branch: branchName,
+      baseBranch,
+      createdAt: new Date().toISOString()
+    };
+    await this.getActiveTaskStore().setWorktree(task.id, worktree);
+
+    return worktree;
+  }
+
+  // Open a VS Code diff of one file across a run session's commit range
+  private async openSessionDiff(taskId: string, sessionId: string, filePath: string) {
+    const task = await this.getActiveTaskStore().getTask(taskId);
+    const changes = task?.runSessions.find(s => s.sessionId === sessionId)?.changes;
+    if (!changes) {
+      throw new Error('Session has no recorded changes');
+    }
+
+    // Worktrees share the object database, so the main repository can show any session commit
+    const repoRoot = await this.getActiveGitHelper().getRepoRoot();
+    const revisionUri = (ref: string) => vscode.Uri.from({
+      scheme: GIT_REVISION_SCHEME,
+      path: `/${filePath}`,
+      query: JSON.stringify({ root: repoRoot, ref })
+    });
+
+    await vscode.commands.executeCommand(
+      'vscode.diff',
+      revisionUri(changes.fromCommit),
+      revisionUri(changes.toCommit),
+      `${path.basename(filePath)} (${changes.fromCommit.slice(0, 7)}..${changes.toCommit.slice(0, 7)})`
+    );
+  }
+
+  // Ask what to do with a finished task's worktree
+  public async offerWorktreeCleanup(taskId: string) {
+    const taskStore = this.getActiveTaskStore();
+    const gitHelper = this.getActiveGitHelper();
+    const task = await taskStore.getTask(taskId);
+    if (!task?.worktree) {
+      return;
+    }
+
+    const { path: worktreePath, branch } = task.worktree;
+    // Worktrees from before base branches were recorded merge into whatever the project has checked out
+    const target = task.worktree.baseBranch ?? await gitHelper.getCurrentBranch();
+    const choice = await vscode.window.showInformationMessage(
+      `Task "${task.title}" is finished. What should happen to its worktree on ${branch}? Merge & Remove merges it into ${target}.`,
+      'Merge & Remove',
+      'Remove',
+      'Keep'
+    );
+
+    if (choice !== 'Merge & Remove' && choice !== 'Remove') {
+      return;
+    }
+
+    if (choice === 'Merge & Remove') {
+      if (await gitHelper.getCurrentBranch() !== target) {
+        await gitHelper.checkoutBranch(target);
+      }
+      await gitHelper.mergeBranch(branch);
+    }
+    await gitHelper.removeWorktree(worktreePath);
+    if (choice === 'Merge & Remove') {
+      await gitHelper.deleteBranch(branch);
+    }
+    await taskStore.setWorktree(taskId, null);
+
+    vscode.window.showInformationMessage(
+      choice === 'Merge & Remove'
+        ? `Merged ${branch} into ${target} and removed its worktree`
+        : `Removed worktree for ${branch}`
+    );
+  }
+
+  public async refresh() {
+    try {
+      await this.sendProjectsState();
+      await this.sendBoardState();
+    } catch (error) {
+      this.sendMessage({
+        type: 'error',
+        payload: {
+          message: error instanceof Error ? error.message : String(error),
+          code: error instanceof StorageCorruptionError ? error.code : undefined
+        }
+      });
+    }
   }
 
   private async sendProjectsState() {
@@ -365,19 +652,15 @@ Begin implementation now. Report progress as you work.`;
 
   private async sendBoardState() {
     const taskStore = this.getActiveTaskStore();
-    const [backlog, inProgress, waitingApproval, finished] = await Promise.all([
-      taskStore.listTasks({ status: ['BACKLOG'] }),
-      taskStore.listTasks({ status: ['IN_PROGRESS'] }),
-      taskStore.listTasks({ status: ['WAITING_APPROVAL'] }),
-      taskStore.listTasks({ status: ['FINISHED'] })
-    ]);
-
-    const boardState: BoardState = {
-      backlog: backlog.items,
-      inProgress: inProgress.items,
-      waitingApproval: waitingApproval.items,
-      finished: finished.items
-    };
+    const config = taskStore.getBoardConfig();
+    const columns = await Promise.all(
+      config.columns.map(async column => ({
+        status: column.id,
+        tasks: (await taskStore.listTasks({ status: [column.id] })).items
+      }))
+    );
+
+    const boardState: BoardState = { config, columns };
 
     this.sendMessage({ type: 'boardState', payload: boardState });
   }
@@ -392,6 +675,12 @@ Begin implementation now. Report progress as you work.`;
     return project?.path || this.defaultWorkspaceRoot;
   }
 
+  // Every project's path, active one first so the MCP server uses it by default
+  public getProjectPaths(): string[] {
+    const active = this.getActiveProjectPath();
+    return [active, ...this.projects.map(p => p.path).filter(p => p !== active)];
+  }
+
   private _getHtmlForWebview(webview: vscode.Webview): string {
     const distPath = vscode.Uri.joinPath(this.extensionUri, 'dist', 'webview');
     const scriptUri = webview.asWebviewUri(vscode.Uri.joinPath(distPath, 'index.js'));